@@ -0,0 +1,249 @@
+import type { APIResponse } from '@playwright/test';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import type { ApiMethod, ApiMultipartField, ApiPort, ApiRequestOptions, ApiResult } from '../../ports/api.port';
+import { diffJson, formatJsonDiff, redactJson } from '../../snapshot';
+import { tryParseJson } from '../../utils';
+import { DEFAULT_REDACT_BODY_KEYS, DEFAULT_REDACT_HEADERS, redactBody } from './traffic';
+
+export type CassetteMode = 'off' | 'record' | 'replay';
+
+export type CassetteOptions = {
+  /** Defaults to `API_CASSETTE_MODE` or `off` */
+  mode?: CassetteMode;
+  /** Directory holding cassette files; defaults to `API_CASSETTES_DIR` or `cassettes` */
+  dir?: string;
+  /** Header names whose recorded values are replaced with `****`; defaults to the traffic recorder's list */
+  redactHeaders?: string[];
+  /** Request and response body fields stored as `****`; defaults to the traffic recorder's list */
+  redactBodyKeys?: string[];
+};
+
+type HeaderEntry = { name: string; value: string };
+
+export type CassetteInteraction = {
+  request: {
+    method: ApiMethod;
+    path: string;
+    /** Normalized body: JSON with sorted keys, form fields, or multipart fields with files by name; secrets redacted */
+    body?: unknown;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    url: string;
+    headers: HeaderEntry[];
+    body: string;
+    /** Set instead of relying on `body` when the response is not valid UTF-8 */
+    bodyBase64?: string;
+  };
+};
+
+export type Cassette = {
+  interactions: CassetteInteraction[];
+};
+
+export function resolveCassetteMode(mode?: CassetteMode): CassetteMode {
+  const value = mode || process.env.API_CASSETTE_MODE || 'off';
+  if (value !== 'off' && value !== 'record' && value !== 'replay') {
+    throw new Error(`Invalid cassette mode '${value}' (expected off, record or replay)`);
+  }
+  return value;
+}
+
+/**
+ * `<dir>/<feature file>/<feature>/<scenario>.json`, from the test's full title path. The file
+ * component keeps features with the same title in different files from sharing a cassette.
+ */
+export function cassettePath(titlePath: string[], dir?: string): string {
+  const base = resolve(process.cwd(), dir || process.env.API_CASSETTES_DIR || 'cassettes');
+  const [file = '', ...titles] = titlePath;
+  const fileParts = file.replace(/\.spec\.[cm]?[jt]s$/, '').split(/[\\/]/);
+  const parts = [...fileParts, ...titles].filter(Boolean).map((t) => t.replace(/[^a-zA-Z0-9_.-]+/g, '-').replace(/^-|-$/g, '') || '_');
+  return `${join(base, ...parts.map((p) => (p === '..' || p === '.' ? '_' : p)))}.json`;
+}
+
+function canonical(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonical);
+  if (value === null || typeof value !== 'object') return value;
+  return Object.fromEntries(
+    Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map((k) => [k, canonical((value as Record<string, unknown>)[k])]),
+  );
+}
+
+function sameBody(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function describeRequest(r: CassetteInteraction['request']): string {
+  return `${r.method} ${r.path}${r.body === undefined ? '' : ` ${JSON.stringify(r.body)}`}`;
+}
+
+function rawBody(recorded: CassetteInteraction['response']): Buffer {
+  return recorded.bodyBase64 === undefined ? Buffer.from(recorded.body) : Buffer.from(recorded.bodyBase64, 'base64');
+}
+
+/** Serves a recorded response through the `APIResponse` interface. */
+class ReplayedResponse implements APIResponse {
+  constructor(private readonly recorded: CassetteInteraction['response']) {}
+
+  async body(): Promise<Buffer> {
+    return rawBody(this.recorded);
+  }
+
+  async dispose(): Promise<void> {}
+
+  async [Symbol.asyncDispose](): Promise<void> {}
+
+  headers(): { [key: string]: string } {
+    const headers: Record<string, string> = {};
+    for (const { name, value } of this.recorded.headers) {
+      const key = name.toLowerCase();
+      headers[key] = key in headers ? `${headers[key]}${key === 'set-cookie' ? '\n' : ', '}${value}` : value;
+    }
+    return headers;
+  }
+
+  headersArray(): HeaderEntry[] {
+    return [...this.recorded.headers];
+  }
+
+  async json(): Promise<any> {
+    return JSON.parse(this.recorded.body);
+  }
+
+  ok(): boolean {
+    return this.recorded.status >= 200 && this.recorded.status < 300;
+  }
+
+  status(): number {
+    return this.recorded.status;
+  }
+
+  statusText(): string {
+    return this.recorded.statusText;
+  }
+
+  async text(): Promise<string> {
+    return this.recorded.body;
+  }
+
+  url(): string {
+    return this.recorded.url;
+  }
+}
+
+/**
+ * Wraps any `ApiPort` to record exchanges into a per-scenario cassette file, or to replay them
+ * without network access. Replay matches on method, path and normalized body, in recorded order.
+ * Secrets are redacted before they are written, and replayed requests are matched in redacted form.
+ */
+export class CassetteApiAdapter implements ApiPort {
+  private readonly interactions: CassetteInteraction[] = [];
+  private readonly used = new Set<number>();
+  private readonly redactHeaders: Set<string>;
+  private readonly redactKeys: string[];
+
+  constructor(
+    private readonly inner: ApiPort,
+    private readonly file: string,
+    private readonly mode: 'record' | 'replay',
+    options: Pick<CassetteOptions, 'redactHeaders' | 'redactBodyKeys'> = {},
+  ) {
+    this.redactHeaders = new Set((options.redactHeaders ?? DEFAULT_REDACT_HEADERS).map((h) => h.toLowerCase()));
+    this.redactKeys = options.redactBodyKeys ?? DEFAULT_REDACT_BODY_KEYS;
+    if (mode === 'replay') {
+      if (!existsSync(file)) {
+        throw new Error(`Cassette not found: ${file}. Record it first with API_CASSETTE_MODE=record`);
+      }
+      this.interactions = (JSON.parse(readFileSync(file, 'utf8')) as Cassette).interactions;
+    }
+  }
+
+  async sendJson(method: ApiMethod, path: string, body?: unknown, headers?: Record<string, string>, options?: ApiRequestOptions): Promise<ApiResult> {
+    const request = { method, path, body: body === undefined ? undefined : canonical(body) };
+    return this.handle(request, options, () => this.inner.sendJson(method, path, body, headers, options));
+  }
+
+  async sendForm(
+    method: 'POST' | 'PUT' | 'PATCH',
+    path: string,
+    form: Record<string, string>,
+    headers?: Record<string, string>,
+    options?: ApiRequestOptions,
+  ): Promise<ApiResult> {
+    return this.handle({ method, path, body: canonical(form) }, options, () => this.inner.sendForm(method, path, form, headers, options));
+  }
+
+  async sendMultipart(
+    method: 'POST' | 'PUT' | 'PATCH',
+    path: string,
+    fields: Record<string, ApiMultipartField>,
+    headers?: Record<string, string>,
+    options?: ApiRequestOptions,
+  ): Promise<ApiResult> {
+    const described = Object.fromEntries(Object.entries(fields).map(([k, v]) => [k, typeof v === 'string' ? v : `@${v.name}`]));
+    return this.handle({ method, path, body: canonical(described) }, options, () => {
+      if (!this.inner.sendMultipart) throw new Error('The wrapped API adapter does not implement sendMultipart');
+      return this.inner.sendMultipart(method, path, fields, headers, options);
+    });
+  }
+
+  private async handle(raw: CassetteInteraction['request'], options: ApiRequestOptions | undefined, send: () => Promise<ApiResult>): Promise<ApiResult> {
+    const request = raw.body === undefined ? raw : { ...raw, body: redactJson(raw.body, this.redactKeys) };
+    if (this.mode === 'replay') {
+      const result = this.replay(request);
+      // Mirror Playwright's failOnStatusCode so replayed runs fail the same way
+      if (options?.failOnStatusCode && result.status >= 400) {
+        throw new Error(`${result.status} ${result.response.statusText()} for ${describeRequest(request)} (replayed)`);
+      }
+      return result;
+    }
+
+    const result = await send();
+    this.interactions.push({
+      request,
+      response: {
+        status: result.status,
+        statusText: result.response.statusText(),
+        url: result.response.url(),
+        headers: result.response.headersArray().map(({ name, value }) => ({ name, value: this.redactHeaders.has(name.toLowerCase()) ? '****' : value })),
+        body: redactBody(result.text, result.contentType, this.redactKeys) ?? '',
+        ...(result.body && !Buffer.from(result.text).equals(result.body) && { bodyBase64: result.body.toString('base64') }),
+      },
+    });
+    mkdirSync(dirname(this.file), { recursive: true });
+    writeFileSync(this.file, `${JSON.stringify({ interactions: this.interactions } satisfies Cassette, null, 2)}\n`);
+    return result;
+  }
+
+  private replay(request: CassetteInteraction['request']): ApiResult {
+    const unused = this.interactions.map((it, i) => ({ it, i })).filter(({ i }) => !this.used.has(i));
+    const match = unused.find(({ it }) => it.request.method === request.method && it.request.path === request.path && sameBody(it.request.body, request.body));
+
+    if (!match) {
+      const candidate = [...unused.map(({ it }) => it), ...this.interactions].find(
+        (it) => it.request.method === request.method && it.request.path === request.path,
+      );
+      const detail = candidate
+        ? `Recorded body differs:\n${formatJsonDiff(diffJson(candidate.request.body, request.body))}`
+        : `Unused interactions:\n${unused.map(({ it }) => `  ${describeRequest(it.request)}`).join('\n') || '  (none)'}`;
+      throw new Error(`No recorded interaction for ${describeRequest(request)} in ${this.file}\n${detail}`);
+    }
+
+    this.used.add(match.i);
+    const response = new ReplayedResponse(match.it.response);
+    const headers = response.headers();
+    return {
+      status: response.status(),
+      text: match.it.response.body,
+      body: rawBody(match.it.response),
+      json: tryParseJson(match.it.response.body),
+      headers,
+      contentType: headers['content-type'] || '',
+      response,
+    };
+  }
+}
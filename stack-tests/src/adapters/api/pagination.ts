@@ -0,0 +1,171 @@
+import type { ApiPort, ApiResult } from '../../ports/api.port';
+import { envNumber, selectPath } from '../../utils';
+
+export type PageContext = {
+  /** Path (or absolute URL) the page was fetched from */
+  path: string;
+  /** 1-based index of the page within this traversal */
+  pageIndex: number;
+  result: ApiResult;
+  /** Items collected from this page */
+  items: unknown[];
+};
+
+/** Decides where the next page is. Return undefined when `page` is the last one. */
+export interface PaginationStrategy {
+  next(page: PageContext): string | undefined;
+}
+
+export type PaginationOptions = {
+  /** Strategy used when a step names none; defaults to `API_PAGINATION` or `link` */
+  strategy?: PaginationStrategy | 'cursor' | 'page' | 'link';
+  /** Extra named strategies, selectable with `... using <name> pagination` */
+  strategies?: Record<string, PaginationStrategy>;
+  /** Safety cap on pages per traversal; defaults to `API_MAX_PAGES` or 50 */
+  maxPages?: number;
+};
+
+export type PaginatedResult = {
+  items: unknown[];
+  pages: number;
+  /** Result of the last page fetched */
+  last: ApiResult;
+};
+
+/** Set (or replace) a query parameter on a path or absolute URL. */
+function withQueryParam(path: string, key: string, value: string): string {
+  const [base, query = ''] = path.split('?', 2);
+  const params = new URLSearchParams(query);
+  params.set(key, value);
+  return `${base}?${params.toString()}`;
+}
+
+function queryParam(path: string, key: string): string | null {
+  return new URLSearchParams(path.split('?', 2)[1] || '').get(key);
+}
+
+const CURSOR_PATHS = ['next_cursor', 'nextCursor', 'meta.next_cursor', 'meta.nextCursor', 'pagination.next_cursor', 'pagination.nextCursor'];
+
+/**
+ * Cursor pagination: the next cursor is read from the body and sent as a query parameter.
+ * Without `cursorPath`, common locations (`next_cursor`, `meta.nextCursor`, ...) are tried.
+ */
+export function cursorPagination(options: { cursorPath?: string; param?: string } = {}): PaginationStrategy {
+  const param = options.param || 'cursor';
+  return {
+    next({ path, result }) {
+      const paths = options.cursorPath ? [options.cursorPath] : CURSOR_PATHS;
+      for (const cursorPath of paths) {
+        let cursor: unknown;
+        try {
+          cursor = selectPath(result.json, cursorPath);
+        } catch {
+          continue;
+        }
+        if (cursor !== undefined && cursor !== null && cursor !== '') return withQueryParam(path, param, String(cursor));
+      }
+      return undefined;
+    },
+  };
+}
+
+/**
+ * Page-number pagination: increments `pageParam` until a page is empty, shorter than the
+ * `limitParam` in the request, or the value at `totalPagesPath` is reached.
+ */
+export function pagePagination(options: { pageParam?: string; limitParam?: string; firstPage?: number; totalPagesPath?: string } = {}): PaginationStrategy {
+  const pageParam = options.pageParam || 'page';
+  const limitParam = options.limitParam || 'limit';
+  const firstPage = options.firstPage ?? 1;
+  return {
+    next({ path, result, items }) {
+      if (!items.length) return undefined;
+      const limit = Number(queryParam(path, limitParam));
+      if (limit > 0 && items.length < limit) return undefined;
+
+      const current = Number(queryParam(path, pageParam) ?? firstPage);
+      if (options.totalPagesPath) {
+        const total = Number(selectPath(result.json, options.totalPagesPath));
+        if (current - firstPage + 1 >= total) return undefined;
+      }
+      return withQueryParam(path, pageParam, String(current + 1));
+    },
+  };
+}
+
+/** RFC 8288 `Link` header pagination: follows `rel="next"` until it is absent. */
+export function linkHeaderPagination(): PaginationStrategy {
+  return {
+    next({ result }) {
+      const header = result.headers['link'];
+      if (!header) return undefined;
+      for (const part of header.split(/,(?=\s*<)/)) {
+        const match = /<([^>]*)>(.*)/.exec(part.trim());
+        if (match && /;\s*rel\s*=\s*"?([^";]*\s)?next(\s[^";]*)?"?/i.test(match[2])) return match[1];
+      }
+      return undefined;
+    },
+  };
+}
+
+const BUILT_IN: Record<string, () => PaginationStrategy> = {
+  cursor: () => cursorPagination(),
+  page: () => pagePagination(),
+  link: () => linkHeaderPagination(),
+};
+
+/**
+ * Walks every page of a list endpoint through an `ApiPort`, collecting the items at a path.
+ */
+export class ApiPaginator {
+  private readonly maxPages: number;
+
+  constructor(
+    private readonly api: ApiPort,
+    private readonly options: PaginationOptions = {},
+  ) {
+    this.maxPages = options.maxPages ?? envNumber('API_MAX_PAGES', 50, 1);
+  }
+
+  strategy(name?: string): PaginationStrategy {
+    if (!name) {
+      const configured = this.options.strategy ?? process.env.API_PAGINATION ?? 'link';
+      if (typeof configured !== 'string') return configured;
+      name = configured;
+    }
+    const custom = this.options.strategies?.[name];
+    if (custom) return custom;
+    const builtIn = BUILT_IN[name];
+    if (!builtIn) {
+      const known = [...Object.keys(BUILT_IN), ...Object.keys(this.options.strategies || {})];
+      throw new Error(`Unknown pagination strategy '${name}' (known: ${known.join(', ')})`);
+    }
+    return builtIn();
+  }
+
+  async collect(path: string, itemsPath: string, headers?: Record<string, string>, strategyName?: string): Promise<PaginatedResult> {
+    const strategy = this.strategy(strategyName);
+    const items: unknown[] = [];
+    let next: string | undefined = path;
+
+    for (let pageIndex = 1; next !== undefined; pageIndex++) {
+      if (pageIndex > this.maxPages) {
+        throw new Error(`Pagination of ${path} stopped after ${this.maxPages} pages (maxPages); ${items.length} item(s) collected`);
+      }
+      const result = await this.api.sendJson('GET', next, undefined, headers);
+      if (result.status < 200 || result.status >= 300) {
+        throw new Error(`Page ${pageIndex} (GET ${next}) returned ${result.status}: ${result.text}`);
+      }
+      const pageItems = selectPath(result.json, itemsPath);
+      if (!Array.isArray(pageItems)) {
+        throw new Error(`Expected an array at '${itemsPath}' on page ${pageIndex} (GET ${next}) but got ${pageItems === null ? 'null' : typeof pageItems}`);
+      }
+      items.push(...pageItems);
+
+      const following = strategy.next({ path: next, pageIndex, result, items: pageItems });
+      if (following === undefined) return { items, pages: pageIndex, last: result };
+      next = following;
+    }
+    throw new Error('unreachable');
+  }
+}
@@ -1,58 +1,268 @@
-import type { APIRequestContext } from '@playwright/test';
-import type { ApiMethod, ApiPort, ApiResult } from '../../ports/api.port';
+import type { APIRequestContext, APIResponse, TestInfo } from '@playwright/test';
+import type { ApiAttempt, ApiMethod, ApiMultipartField, ApiPort, ApiRequestOptions, ApiResult } from '../../ports/api.port';
+import { ContractViolationError, type OpenApiContract } from '../../openapi';
+import { resolveRetryPolicy, retryableError, retryDelayMs, type ApiRetryPolicy, type ResolvedRetryPolicy } from './retry';
+import type { ApiTrafficRecorder } from './traffic';
+import type { LatencySample } from '../../latency';
 import { tryParseJson } from '../../utils';
 
+export type PlaywrightApiAdapterOptions = {
+  /** OpenAPI contract every exchange is validated against */
+  contract?: OpenApiContract;
+  /** Base URL of `request`, so absolute URLs on other hosts skip the contract */
+  baseUrl?: string;
+  /** Retry transient failures; each attempt is recorded on the result and annotated on the test */
+  retry?: ApiRetryPolicy;
+  /** Current test, used to attach reports such as contract violations */
+  testInfo?: TestInfo;
+  /** Records every exchange (headers, bodies, timings) for the test's traffic attachments */
+  traffic?: ApiTrafficRecorder;
+  /** Receives one sample per completed request, for latency budgets */
+  latencySamples?: LatencySample[];
+};
+
+type RequestInit = {
+  headers: Record<string, string>;
+  data?: unknown;
+  multipart?: Record<string, ApiMultipartField>;
+  timeout?: number;
+  maxRedirects?: number;
+  failOnStatusCode?: boolean;
+};
+
+function transportOptions(options: ApiRequestOptions = {}): Pick<RequestInit, 'timeout' | 'maxRedirects' | 'failOnStatusCode'> {
+  return {
+    ...(options.timeoutMs !== undefined && { timeout: options.timeoutMs }),
+    ...(options.maxRedirects !== undefined && { maxRedirects: options.maxRedirects }),
+    ...(options.failOnStatusCode !== undefined && { failOnStatusCode: options.failOnStatusCode }),
+  };
+}
+
 export class PlaywrightApiAdapter implements ApiPort {
-  constructor(private readonly request: APIRequestContext) {}
+  private readonly retry?: ResolvedRetryPolicy;
+
+  constructor(
+    private readonly request: APIRequestContext,
+    private readonly options: PlaywrightApiAdapterOptions = {},
+  ) {
+    this.retry = options.retry ? resolveRetryPolicy(options.retry) : undefined;
+  }
 
-  async sendJson(method: ApiMethod, path: string, body?: unknown, headers?: Record<string, string>): Promise<ApiResult> {
-    const opts: any = {
+  async sendJson(method: ApiMethod, path: string, body?: unknown, headers?: Record<string, string>, options?: ApiRequestOptions): Promise<ApiResult> {
+    const init: RequestInit = {
       headers: { Accept: 'application/json', ...(headers || {}) },
+      ...transportOptions(options),
     };
     if (body !== undefined) {
-      opts.data = body;
-      opts.headers['Content-Type'] = 'application/json';
+      init.data = body;
+      init.headers['Content-Type'] = 'application/json';
     }
-
-    const resp = await this.request.fetch(path, { method, ...opts });
-    const text = await resp.text();
-    const respHeaders = resp.headers();
-    const contentType = respHeaders['content-type'] || '';
-    const json = contentType.includes('application/json') ? tryParseJson(text) : tryParseJson(text);
-
-    return {
-      status: resp.status(),
-      text,
-      json,
-      headers: respHeaders,
-      contentType,
-      response: resp,
-    };
+    return this.execute(method, path, init, body);
   }
 
-  async sendForm(method: 'POST' | 'PUT' | 'PATCH', path: string, form: Record<string, string>, headers?: Record<string, string>): Promise<ApiResult> {
-    const body = new URLSearchParams(form).toString();
-    const resp = await this.request.fetch(path, {
-      method,
+  async sendForm(
+    method: 'POST' | 'PUT' | 'PATCH',
+    path: string,
+    form: Record<string, string>,
+    headers?: Record<string, string>,
+    options?: ApiRequestOptions,
+  ): Promise<ApiResult> {
+    const init: RequestInit = {
       headers: {
         Accept: 'application/json',
         'Content-Type': 'application/x-www-form-urlencoded',
         ...(headers || {}),
       },
-      data: body,
-    });
-    const text = await resp.text();
-    const respHeaders = resp.headers();
-    const contentType = respHeaders['content-type'] || '';
-    const json = contentType.includes('application/json') ? tryParseJson(text) : tryParseJson(text);
-
-    return {
-      status: resp.status(),
-      text,
-      json,
-      headers: respHeaders,
-      contentType,
-      response: resp,
+      data: new URLSearchParams(form).toString(),
+      ...transportOptions(options),
     };
+    return this.execute(method, path, init, form);
+  }
+
+  async sendMultipart(
+    method: 'POST' | 'PUT' | 'PATCH',
+    path: string,
+    fields: Record<string, ApiMultipartField>,
+    headers?: Record<string, string>,
+    options?: ApiRequestOptions,
+  ): Promise<ApiResult> {
+    const init: RequestInit = {
+      headers: { Accept: 'application/json', ...(headers || {}) },
+      multipart: fields,
+      ...transportOptions(options),
+    };
+    // Files are described by name for contract checks (`format: binary` properties)
+    const described = Object.fromEntries(Object.entries(fields).map(([k, v]) => [k, typeof v === 'string' ? v : v.name]));
+    return this.execute(method, path, init, described, 'multipart/form-data');
+  }
+
+  private async execute(
+    method: ApiMethod,
+    path: string,
+    init: RequestInit,
+    requestBody: unknown,
+    requestContentType: string | undefined = init.headers['Content-Type'],
+  ): Promise<ApiResult> {
+    const startedAt = new Date();
+    let fetched: { resp: APIResponse; attempts: ApiAttempt[]; sentAt: Date };
+    try {
+      fetched = await this.fetchWithRetry(method, path, init);
+    } catch (err) {
+      this.recordTraffic(method, path, init, requestContentType, startedAt, undefined, err);
+      throw err;
+    }
+    const { resp, attempts, sentAt } = fetched;
+    const result = await toResult(resp);
+    // Only the final attempt counts, so retries and backoff waits don't inflate response-time checks
+    result.durationMs = Date.now() - sentAt.getTime();
+    if (attempts.length > 1) result.attempts = attempts;
+    this.options.latencySamples?.push({ method, path, status: result.status, durationMs: result.durationMs });
+    this.recordTraffic(method, path, init, requestContentType, sentAt, result);
+    await this.checkContract(method, path, requestContentType, requestBody, result);
+    return result;
+  }
+
+  private recordTraffic(
+    method: ApiMethod,
+    path: string,
+    init: RequestInit,
+    requestContentType: string | undefined,
+    startedAt: Date,
+    result?: ApiResult,
+    error?: unknown,
+  ): void {
+    const { traffic } = this.options;
+    if (!traffic) return;
+
+    let requestBody: string | undefined;
+    if (init.multipart) {
+      requestBody = Object.entries(init.multipart)
+        .map(([k, v]) => `${k}=${typeof v === 'string' ? v : `<file ${v.name}, ${v.mimeType}, ${v.buffer.length} bytes>`}`)
+        .join('\n');
+    } else if (init.data !== undefined) {
+      requestBody = typeof init.data === 'string' ? init.data : JSON.stringify(init.data);
+    }
+
+    traffic.record({
+      method,
+      url: result?.response.url() ?? path,
+      requestHeaders: init.headers,
+      requestBody,
+      requestContentType,
+      status: result?.status,
+      statusText: result?.response.statusText(),
+      responseHeaders: result?.headers,
+      responseBody: result?.text,
+      responseContentType: result?.contentType,
+      error: error === undefined ? undefined : error instanceof Error ? error.message : String(error),
+      startedAt,
+      durationMs: result?.durationMs ?? Date.now() - startedAt.getTime(),
+    });
+  }
+
+  /** `sentAt` is when the returned response's attempt was sent. */
+  private async fetchWithRetry(
+    method: ApiMethod,
+    path: string,
+    init: RequestInit,
+  ): Promise<{ resp: APIResponse; attempts: ApiAttempt[]; sentAt: Date }> {
+    const policy = this.retry;
+    if (!policy || !policy.methods.includes(method)) {
+      const sentAt = new Date();
+      return { resp: await this.request.fetch(path, { method, ...init }), attempts: [], sentAt };
+    }
+
+    const attempts: ApiAttempt[] = [];
+    for (let attempt = 1; ; attempt++) {
+      const record: ApiAttempt = { attempt };
+      attempts.push(record);
+      const last = attempt >= policy.maxAttempts;
+
+      const sentAt = new Date();
+      let resp: APIResponse;
+      try {
+        resp = await this.request.fetch(path, { method, ...init });
+      } catch (err) {
+        record.durationMs = Date.now() - sentAt.getTime();
+        record.error = err instanceof Error ? err.message : String(err);
+        if (last || !retryableError(policy, err)) {
+          this.annotateRetries(method, path, attempts, 'failed');
+          throw err;
+        }
+        record.delayMs = retryDelayMs(policy, attempt);
+        await sleep(record.delayMs);
+        continue;
+      }
+
+      record.durationMs = Date.now() - sentAt.getTime();
+      record.status = resp.status();
+      if (last || !policy.retryOnStatus.includes(record.status)) {
+        this.annotateRetries(method, path, attempts, policy.retryOnStatus.includes(record.status) ? 'failed' : 'succeeded');
+        return { resp, attempts, sentAt };
+      }
+      record.delayMs = retryDelayMs(policy, attempt, resp.headers()['retry-after']);
+      await resp.dispose();
+      await sleep(record.delayMs);
+    }
+  }
+
+  private annotateRetries(method: ApiMethod, path: string, attempts: ApiAttempt[], outcome: 'succeeded' | 'failed'): void {
+    if (attempts.length < 2) return;
+    const history = attempts.map((a) => a.status ?? a.error).join(', ');
+    this.options.testInfo?.annotations.push({
+      type: 'api-retry',
+      description: `${method} ${path} ${outcome} on attempt ${attempts.length} of ${this.retry?.maxAttempts} (${history})`,
+    });
   }
+
+  private async checkContract(
+    method: ApiMethod,
+    path: string,
+    requestContentType: string | undefined,
+    requestBody: unknown,
+    result: ApiResult,
+  ): Promise<void> {
+    const { contract, testInfo, baseUrl } = this.options;
+    if (!contract) return;
+
+    const violations = contract.validate({
+      method,
+      path,
+      requestBody,
+      requestContentType,
+      status: result.status,
+      responseBody: result.json,
+      responseContentType: result.contentType,
+      baseUrl,
+    });
+    if (!violations.length) return;
+
+    await testInfo?.attach(`openapi violations (${method} ${path})`, {
+      body: JSON.stringify(violations, null, 2),
+      contentType: 'application/json',
+    });
+    if (contract.mode === 'strict') throw new ContractViolationError(violations);
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((r) => setTimeout(r, ms));
+}
+
+async function toResult(resp: APIResponse): Promise<ApiResult> {
+  const body = await resp.body();
+  const text = body.toString('utf8');
+  const respHeaders = resp.headers();
+  const contentType = respHeaders['content-type'] || '';
+  const json = tryParseJson(text);
+
+  return {
+    status: resp.status(),
+    text,
+    body,
+    json,
+    headers: respHeaders,
+    contentType,
+    response: resp,
+  };
 }
@@ -0,0 +1,60 @@
+import type { ApiMethod } from '../../ports/api.port';
+
+export type ApiRetryPolicy = {
+  /** Total attempts including the first one */
+  maxAttempts: number;
+  /** Status codes that trigger a retry (default 429, 502, 503, 504) */
+  retryOnStatus?: number[];
+  /** Network error codes that trigger a retry (default ECONNRESET, ECONNREFUSED, ETIMEDOUT, EPIPE) */
+  retryOnErrors?: string[];
+  /**
+   * Methods that may be retried (default GET, HEAD and OPTIONS).
+   * Mutating methods must be listed explicitly to opt in.
+   */
+  methods?: ApiMethod[];
+  /** Delay before the first retry; doubles on each further attempt (default 200) */
+  baseDelayMs?: number;
+  /** Upper bound for the exponential delay (default 5000) */
+  maxDelayMs?: number;
+  /** Randomize each delay between 0 and the exponential value (default true) */
+  jitter?: boolean;
+  /** Wait as long as a `Retry-After` header asks when it is longer than the backoff (default true) */
+  respectRetryAfter?: boolean;
+};
+
+export type ResolvedRetryPolicy = Required<ApiRetryPolicy>;
+
+export function resolveRetryPolicy(policy: ApiRetryPolicy): ResolvedRetryPolicy {
+  return {
+    maxAttempts: Math.max(1, policy.maxAttempts),
+    retryOnStatus: policy.retryOnStatus ?? [429, 502, 503, 504],
+    retryOnErrors: policy.retryOnErrors ?? ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EPIPE'],
+    methods: policy.methods ?? ['GET', 'HEAD', 'OPTIONS'],
+    baseDelayMs: policy.baseDelayMs ?? 200,
+    maxDelayMs: policy.maxDelayMs ?? 5000,
+    jitter: policy.jitter ?? true,
+    respectRetryAfter: policy.respectRetryAfter ?? true,
+  };
+}
+
+export function retryableError(policy: ResolvedRetryPolicy, err: unknown): string | undefined {
+  const message = err instanceof Error ? err.message : String(err);
+  return policy.retryOnErrors.find((code) => message.includes(code));
+}
+
+/** Parse `Retry-After` as delta-seconds or an HTTP date; returns milliseconds. */
+export function parseRetryAfter(value: string | undefined, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value.trim());
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/** Delay before attempt `attempt + 1`, given that `attempt` (1-based) just failed. */
+export function retryDelayMs(policy: ResolvedRetryPolicy, attempt: number, retryAfter?: string): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  const backoff = policy.jitter ? Math.round(Math.random() * exponential) : exponential;
+  const requested = policy.respectRetryAfter ? parseRetryAfter(retryAfter) : undefined;
+  return requested !== undefined ? Math.max(backoff, requested) : backoff;
+}
@@ -0,0 +1,208 @@
+import type { TestInfo } from '@playwright/test';
+import { redactJson } from '../../snapshot';
+
+export type ApiTrafficMode = 'off' | 'on-failure' | 'always';
+
+export type ApiTrafficOptions = {
+  /** When to attach the recording to the test; defaults to `API_TRAFFIC` or `on-failure` */
+  mode?: ApiTrafficMode;
+  /** Header names whose values are replaced with `****` (case-insensitive) */
+  redactHeaders?: string[];
+  /** JSON and form field names whose values are replaced with `****` at any depth (case-insensitive) */
+  redactBodyKeys?: string[];
+};
+
+export type ApiExchange = {
+  method: string;
+  url: string;
+  requestHeaders: Record<string, string>;
+  requestBody?: string;
+  requestContentType?: string;
+  status?: number;
+  statusText?: string;
+  responseHeaders?: Record<string, string>;
+  responseBody?: string;
+  responseContentType?: string;
+  /** Set when the request failed without a response */
+  error?: string;
+  startedAt: Date;
+  durationMs: number;
+};
+
+export const DEFAULT_REDACT_HEADERS = ['authorization', 'proxy-authorization', 'cookie', 'set-cookie', 'x-api-key'];
+
+export const DEFAULT_REDACT_BODY_KEYS = [
+  'password',
+  'client_secret',
+  'clientSecret',
+  'access_token',
+  'accessToken',
+  'refresh_token',
+  'refreshToken',
+  'id_token',
+];
+
+/**
+ * Replaces the values of `keys` in a JSON, URL-encoded form or multipart (`name=value` lines) body.
+ * Other bodies, and bodies without a matching key, are returned unchanged.
+ */
+export function redactBody(body: string | undefined, contentType: string | undefined, keys: string[]): string | undefined {
+  if (!body || !keys.length) return body;
+  const lower = new Set(keys.map((k) => k.toLowerCase()));
+  const mediaType = (contentType || '').split(';')[0].trim().toLowerCase();
+  if (mediaType === 'application/x-www-form-urlencoded') {
+    const params = new URLSearchParams(body);
+    if (![...params.keys()].some((k) => lower.has(k.toLowerCase()))) return body;
+    return new URLSearchParams([...params].map(([k, v]) => [k, lower.has(k.toLowerCase()) ? '****' : v])).toString();
+  }
+  if (mediaType === 'multipart/form-data') {
+    return body
+      .split('\n')
+      .map((line) => {
+        const eq = line.indexOf('=');
+        return eq > 0 && lower.has(line.slice(0, eq).toLowerCase()) ? `${line.slice(0, eq)}=****` : line;
+      })
+      .join('\n');
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    return body;
+  }
+  const redacted = JSON.stringify(redactJson(parsed, keys));
+  return redacted === JSON.stringify(parsed) ? body : redacted;
+}
+
+export function resolveTrafficMode(mode?: ApiTrafficMode): ApiTrafficMode {
+  const value = mode || process.env.API_TRAFFIC || 'on-failure';
+  if (value !== 'off' && value !== 'on-failure' && value !== 'always') {
+    throw new Error(`Invalid API traffic mode '${value}' (expected off, on-failure or always)`);
+  }
+  return value;
+}
+
+/**
+ * Collects the HTTP exchanges of one test and attaches them as a HAR file and a Markdown transcript.
+ */
+export class ApiTrafficRecorder {
+  readonly exchanges: ApiExchange[] = [];
+  private readonly redact: Set<string>;
+  private readonly redactKeys: string[];
+
+  constructor(options: Pick<ApiTrafficOptions, 'redactHeaders' | 'redactBodyKeys'> = {}) {
+    this.redact = new Set((options.redactHeaders ?? DEFAULT_REDACT_HEADERS).map((h) => h.toLowerCase()));
+    this.redactKeys = options.redactBodyKeys ?? DEFAULT_REDACT_BODY_KEYS;
+  }
+
+  record(exchange: ApiExchange): void {
+    this.exchanges.push({
+      ...exchange,
+      requestHeaders: this.redactHeaders(exchange.requestHeaders),
+      requestBody: redactBody(exchange.requestBody, exchange.requestContentType, this.redactKeys),
+      responseHeaders: exchange.responseHeaders && this.redactHeaders(exchange.responseHeaders),
+      responseBody: redactBody(exchange.responseBody, exchange.responseContentType, this.redactKeys),
+    });
+  }
+
+  toHar(): object {
+    return {
+      log: {
+        version: '1.2',
+        creator: { name: '@esimplicity/stack-tests', version: '1' },
+        entries: this.exchanges.map((e) => ({
+          startedDateTime: e.startedAt.toISOString(),
+          time: e.durationMs,
+          request: {
+            method: e.method,
+            url: e.url,
+            httpVersion: 'HTTP/1.1',
+            headers: harHeaders(e.requestHeaders),
+            queryString: harQuery(e.url),
+            cookies: [],
+            headersSize: -1,
+            bodySize: e.requestBody === undefined ? 0 : Buffer.byteLength(e.requestBody),
+            ...(e.requestBody !== undefined && {
+              postData: { mimeType: e.requestContentType || '', text: e.requestBody },
+            }),
+          },
+          response: {
+            status: e.status ?? 0,
+            statusText: e.statusText ?? e.error ?? '',
+            httpVersion: 'HTTP/1.1',
+            headers: harHeaders(e.responseHeaders ?? {}),
+            cookies: [],
+            content: {
+              size: e.responseBody === undefined ? 0 : Buffer.byteLength(e.responseBody),
+              mimeType: e.responseContentType || '',
+              text: e.responseBody ?? '',
+            },
+            redirectURL: '',
+            headersSize: -1,
+            bodySize: -1,
+          },
+          cache: {},
+          timings: { send: 0, wait: e.durationMs, receive: 0 },
+        })),
+      },
+    };
+  }
+
+  toMarkdown(): string {
+    return this.exchanges
+      .map((e, i) => {
+        const outcome = e.error ? `failed: ${e.error}` : `${e.status} ${e.statusText ?? ''}`.trim();
+        const lines = [`## ${i + 1}. ${e.method} ${e.url} → ${outcome} (${e.durationMs} ms)`, '', '**Request**', ''];
+        lines.push(codeBlock(formatHeaders(e.requestHeaders) + (e.requestBody ? `\n\n${e.requestBody}` : '')));
+        if (!e.error) {
+          lines.push('', '**Response**', '');
+          lines.push(codeBlock(formatHeaders(e.responseHeaders ?? {}) + (e.responseBody ? `\n\n${prettyBody(e.responseBody)}` : '')));
+        }
+        return lines.join('\n');
+      })
+      .join('\n\n');
+  }
+
+  async attach(testInfo: TestInfo): Promise<void> {
+    if (!this.exchanges.length) return;
+    await testInfo.attach('api traffic.har', {
+      body: JSON.stringify(this.toHar(), null, 2),
+      contentType: 'application/json',
+    });
+    await testInfo.attach('api traffic.md', {
+      body: `# API traffic: ${testInfo.title}\n\n${this.toMarkdown()}\n`,
+      contentType: 'text/markdown',
+    });
+  }
+
+  private redactHeaders(headers: Record<string, string>): Record<string, string> {
+    return Object.fromEntries(Object.entries(headers).map(([k, v]) => [k, this.redact.has(k.toLowerCase()) ? '****' : v]));
+  }
+}
+
+function harHeaders(headers: Record<string, string>): { name: string; value: string }[] {
+  return Object.entries(headers).map(([name, value]) => ({ name, value }));
+}
+
+function harQuery(url: string): { name: string; value: string }[] {
+  const query = url.split('?', 2)[1];
+  return query ? [...new URLSearchParams(query)].map(([name, value]) => ({ name, value })) : [];
+}
+
+function formatHeaders(headers: Record<string, string>): string {
+  return Object.entries(headers)
+    .map(([k, v]) => `${k}: ${v}`)
+    .join('\n');
+}
+
+function prettyBody(text: string): string {
+  try {
+    return JSON.stringify(JSON.parse(text), null, 2);
+  } catch {
+    return text;
+  }
+}
+
+function codeBlock(text: string): string {
+  return `\`\`\`\n${text}\n\`\`\``;
+}
@@ -0,0 +1,191 @@
+import type { ApiPort } from '../../ports/api.port';
+import type { AuthPort } from '../../ports/auth.port';
+import type { UiPort } from '../../ports/ui.port';
+import type { World } from '../../world';
+import { CredentialRegistry, type CredentialProfile } from '../../credentials';
+import { clearApiResult, interpolate } from '../../utils';
+import { UniversalAuthAdapter } from './universal-auth.adapter';
+import { jwtExpiry, tokenCacheKey, type TokenCache } from './token-cache';
+import type { UiLoginFlow } from './ui-login-flow';
+
+export type OAuth2Token = {
+  accessToken: string;
+  refreshToken?: string;
+  /** Epoch ms derived from `expires_in`; when unset, the JWT `exp` claim is used if present */
+  expiresAt?: number;
+};
+
+/** Token endpoint response (RFC 6749 §5.1, §5.2); servers vary, so every field is checked before use */
+type TokenResponse = {
+  access_token?: unknown;
+  refresh_token?: unknown;
+  expires_in?: unknown;
+  error?: unknown;
+  error_description?: unknown;
+};
+
+export type OAuth2AuthAdapterOptions = {
+  /** Token endpoint for profiles without their own `tokenUrl`; defaults to `OAUTH_TOKEN_URL` */
+  tokenUrl?: string;
+  /** Client for profiles without their own; defaults to `OAUTH_CLIENT_ID` / `OAUTH_CLIENT_SECRET` */
+  clientId?: string;
+  clientSecret?: string;
+  /** Send the client credentials as form fields (default) or as HTTP Basic auth */
+  clientAuth?: 'body' | 'basic';
+  /** Renew tokens this many seconds before they expire (default 30) */
+  refreshSkewSeconds?: number;
+};
+
+/**
+ * OAuth2 / OIDC token-endpoint authentication. Each profile's grant (`password` by default, or
+ * `client_credentials`) yields a bearer token; expiring tokens are renewed before the next request
+ * with the refresh-token grant, or the original grant when there is no refresh token.
+ * UI logins are delegated to `UniversalAuthAdapter`.
+ */
+export class OAuth2AuthAdapter implements AuthPort {
+  private readonly credentials: CredentialRegistry;
+  private readonly ui: UniversalAuthAdapter;
+
+  constructor(
+    private readonly deps: {
+      api: ApiPort;
+      ui: UiPort;
+      credentials?: CredentialRegistry;
+      /** Reuses tokens across scenarios; keys include `apiBaseUrl` */
+      tokenCache?: TokenCache;
+      apiBaseUrl?: string;
+      /** Passed to the `UniversalAuthAdapter` that performs UI logins */
+      uiLoginFlow?: UiLoginFlow;
+    },
+    private readonly options: OAuth2AuthAdapterOptions = {},
+  ) {
+    this.credentials = deps.credentials ?? new CredentialRegistry();
+    this.ui = new UniversalAuthAdapter({ ...deps, credentials: this.credentials });
+  }
+
+  /** Sets a fixed token; automatic renewal stops until the next login. */
+  apiSetBearer(world: World, token: string): void {
+    world.authRefresh = undefined;
+    world.authRejected = undefined;
+    setBearer(world, token);
+  }
+
+  async apiLoginAs(world: World, name: string): Promise<void> {
+    const profile = this.credentials.get(name);
+    const { tokenCache } = this.deps;
+    const key = tokenCacheKey(profile, this.deps.apiBaseUrl ?? '');
+    const cached = tokenCache?.get(key);
+    const stale = cached ? undefined : tokenCache?.peek(key);
+    // Only a full grant is stored as the last response; a cache hit or renewal leaves none
+    if (cached || stale) clearApiResult(world);
+    let token = cached ?? (await this.obtain(world, profile, key, stale));
+    setBearer(world, token.accessToken);
+
+    world.authRefresh = async (w) => {
+      if (this.isFresh(token)) return;
+      token = await this.obtain(w, profile, key, token);
+      setBearer(w, token.accessToken);
+    };
+    world.authRejected = (w) => {
+      if (tokenCache && w.headers.Authorization === `Bearer ${token.accessToken}`) tokenCache.delete(key);
+    };
+  }
+
+  async apiLoginAsAdmin(world: World): Promise<void> {
+    await this.apiLoginAs(world, 'admin');
+  }
+
+  async apiLoginAsUser(world: World): Promise<void> {
+    await this.apiLoginAs(world, 'user');
+  }
+
+  async uiLoginAs(world: World, profile: string): Promise<void> {
+    await this.ui.uiLoginAs(world, profile);
+  }
+
+  async uiLoginAsAdmin(world: World): Promise<void> {
+    await this.ui.uiLoginAsAdmin(world);
+  }
+
+  async uiLoginAsUser(world: World): Promise<void> {
+    await this.ui.uiLoginAsUser(world);
+  }
+
+  private isFresh(token: OAuth2Token): boolean {
+    const expiresAt = token.expiresAt ?? jwtExpiry(token.accessToken);
+    return expiresAt === undefined || Date.now() < expiresAt - (this.options.refreshSkewSeconds ?? 30) * 1000;
+  }
+
+  /** Renews a stale token when there is one, else runs the profile's grant; the result is cached. */
+  private async obtain(world: World, profile: CredentialProfile, key: string, stale?: OAuth2Token): Promise<OAuth2Token> {
+    const token = stale ? await this.renew(world, profile, stale) : await this.requestToken(world, profile, grantForm(profile), true);
+    return this.deps.tokenCache?.set(key, token) ?? token;
+  }
+
+  private async renew(world: World, profile: CredentialProfile, token: OAuth2Token): Promise<OAuth2Token> {
+    if (token.refreshToken) {
+      try {
+        const renewed = await this.requestToken(world, profile, { grant_type: 'refresh_token', refresh_token: token.refreshToken });
+        return { ...renewed, refreshToken: renewed.refreshToken ?? token.refreshToken };
+      } catch (err) {
+        console.warn(`OAuth2 refresh failed for profile '${profile.name}', requesting a new token`, err);
+      }
+    }
+    return this.requestToken(world, profile, grantForm(profile));
+  }
+
+  /** Only the initial login is stored as the last response; renewals must not clobber it. */
+  private async requestToken(world: World, profile: CredentialProfile, grant: Record<string, string>, storeResult = false): Promise<OAuth2Token> {
+    const tokenUrl = interpolate(profile.tokenUrl || this.options.tokenUrl || process.env.OAUTH_TOKEN_URL || '', world.vars);
+    if (!tokenUrl) {
+      throw new Error(`No OAuth2 token endpoint for profile '${profile.name}'; set OAUTH_TOKEN_URL or the profile's tokenUrl`);
+    }
+    const clientId = profile.clientId ?? this.options.clientId ?? process.env.OAUTH_CLIENT_ID;
+    const clientSecret = profile.clientSecret ?? this.options.clientSecret ?? process.env.OAUTH_CLIENT_SECRET;
+
+    const form: Record<string, string> = { ...grant };
+    const headers: Record<string, string> = {};
+    if (this.options.clientAuth === 'basic' && clientId) {
+      const basic = `${encodeURIComponent(clientId)}:${encodeURIComponent(clientSecret ?? '')}`;
+      headers.Authorization = `Basic ${Buffer.from(basic).toString('base64')}`;
+    } else {
+      if (clientId) form.client_id = clientId;
+      if (clientSecret) form.client_secret = clientSecret;
+    }
+
+    const result = await this.deps.api.sendForm('POST', tokenUrl, form, headers);
+    if (storeResult) {
+      world.lastStatus = result.status;
+      world.lastText = result.text;
+      world.lastJson = result.json;
+      world.lastHeaders = result.headers;
+    }
+
+    const json: TokenResponse = result.json !== null && typeof result.json === 'object' ? result.json : {};
+    const accessToken = json.access_token;
+    if (result.status >= 400 || typeof accessToken !== 'string' || !accessToken) {
+      const reason = json.error ? `${json.error}${json.error_description ? ` (${json.error_description})` : ''}` : result.text;
+      throw new Error(`OAuth2 ${grant.grant_type} grant failed for profile '${profile.name}': ${result.status} ${reason}`);
+    }
+    const expiresIn = Number(json.expires_in);
+    return {
+      accessToken,
+      refreshToken: typeof json.refresh_token === 'string' ? json.refresh_token : undefined,
+      expiresAt: Number.isFinite(expiresIn) && expiresIn > 0 ? Date.now() + expiresIn * 1000 : undefined,
+    };
+  }
+}
+
+function setBearer(world: World, token: string): void {
+  world.headers = { ...(world.headers || {}), Authorization: `Bearer ${token}` };
+}
+
+function grantForm(profile: CredentialProfile): Record<string, string> {
+  const form: Record<string, string> =
+    profile.grant === 'client_credentials'
+      ? { grant_type: 'client_credentials' }
+      : { grant_type: 'password', username: profile.username ?? '', password: profile.password ?? '' };
+  if (profile.scope) form.scope = profile.scope;
+  if (profile.audience) form.audience = profile.audience;
+  return form;
+}
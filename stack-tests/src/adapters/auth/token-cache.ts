@@ -0,0 +1,123 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import type { CredentialProfile } from '../../credentials';
+
+export type CachedToken = {
+  accessToken: string;
+  refreshToken?: string;
+  /** Epoch ms; when unset, the JWT `exp` claim is used if the token has one */
+  expiresAt?: number;
+  /** Epoch ms the token was stored, set by the cache */
+  cachedAt?: number;
+};
+
+export type TokenCacheOptions = {
+  /**
+   * Share tokens across workers and runs through this JSON file; defaults to `AUTH_TOKEN_CACHE_FILE`.
+   * Unset keeps tokens in memory for the worker's lifetime. The file holds live credentials:
+   * keep it out of version control.
+   */
+  file?: string;
+  /** Treat tokens as expired this many seconds early (default 30) */
+  skewSeconds?: number;
+  /**
+   * Lifetime assumed for tokens with no `expires_in` or JWT `exp` (default 900). This is a guess,
+   * not the server's real lifetime: lower it if opaque tokens expire sooner. A token the API
+   * rejects with 401 is dropped from the cache either way.
+   */
+  opaqueTtlSeconds?: number;
+};
+
+/**
+ * Cache key for a credential profile's token against one API. The username (or client id) is part
+ * of the key, so changing a profile's credentials never reuses the old account's token.
+ */
+export function tokenCacheKey(profile: Pick<CredentialProfile, 'name' | 'username' | 'clientId'>, baseUrl: string): string {
+  return `${profile.name}:${profile.username ?? profile.clientId ?? ''}@${baseUrl}`;
+}
+
+/** Expiry (epoch ms) from a JWT's `exp` claim; undefined for opaque tokens. */
+export function jwtExpiry(token: string): number | undefined {
+  const payload = token.split('.')[1];
+  if (!payload || token.split('.').length !== 3) return undefined;
+  try {
+    const exp = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'))?.exp;
+    return typeof exp === 'number' ? exp * 1000 : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Tokens by credential profile and base URL, so a worker logs in once per profile instead of
+ * once per scenario. Expired (or about to expire) tokens are never returned.
+ */
+export class TokenCache {
+  private readonly tokens = new Map<string, CachedToken>();
+  private readonly file?: string;
+
+  constructor(private readonly options: TokenCacheOptions = {}) {
+    const file = options.file ?? process.env.AUTH_TOKEN_CACHE_FILE;
+    this.file = file ? resolve(process.cwd(), file) : undefined;
+  }
+
+  /** A token still valid for at least `skewSeconds`, from memory or the shared file. */
+  get(key: string): CachedToken | undefined {
+    const inMemory = this.tokens.get(key);
+    if (inMemory && this.isFresh(inMemory)) return inMemory;
+
+    const shared = this.readFile()[key];
+    if (shared && this.isFresh(shared)) {
+      this.tokens.set(key, shared);
+      return shared;
+    }
+    return undefined;
+  }
+
+  /** The stored token even when expired, e.g. to use its refresh token. */
+  peek(key: string): CachedToken | undefined {
+    return this.tokens.get(key) ?? this.readFile()[key];
+  }
+
+  /** Stores the token and returns the stored entry, stamped with `cachedAt`. */
+  set(key: string, token: CachedToken): CachedToken {
+    const entry = { ...token, cachedAt: Date.now() };
+    this.tokens.set(key, entry);
+    this.writeFile((all) => ({ ...all, [key]: entry }));
+    return entry;
+  }
+
+  /** Forget a token the server rejected. */
+  delete(key: string): void {
+    this.tokens.delete(key);
+    this.writeFile(({ [key]: _removed, ...rest }) => rest);
+  }
+
+  /** Epoch ms after which the token must not be used. */
+  expiresAt(token: CachedToken): number {
+    return token.expiresAt ?? jwtExpiry(token.accessToken) ?? (token.cachedAt ?? Date.now()) + (this.options.opaqueTtlSeconds ?? 900) * 1000;
+  }
+
+  isFresh(token: CachedToken): boolean {
+    return Date.now() < this.expiresAt(token) - (this.options.skewSeconds ?? 30) * 1000;
+  }
+
+  private readFile(): Record<string, CachedToken> {
+    if (!this.file || !existsSync(this.file)) return {};
+    try {
+      return JSON.parse(readFileSync(this.file, 'utf8'));
+    } catch {
+      // A concurrent writer or a corrupt file only costs a fresh login
+      return {};
+    }
+  }
+
+  /** Read-modify-write through a temp file and rename, so other workers never read a partial file. */
+  private writeFile(update: (all: Record<string, CachedToken>) => Record<string, CachedToken>): void {
+    if (!this.file) return;
+    mkdirSync(dirname(this.file), { recursive: true });
+    const tmp = `${this.file}.${process.pid}.tmp`;
+    writeFileSync(tmp, JSON.stringify(update(this.readFile()), null, 2), { mode: 0o600 });
+    renameSync(tmp, this.file);
+  }
+}
@@ -0,0 +1,100 @@
+import type { UiInputMode, UiLocatorMethod, UiPort } from '../../ports/ui.port';
+import { interpolate } from '../../utils';
+
+/** An element located the way the `... element with {string} {string}` steps locate it; `nth` is 1-based */
+export type UiLoginField = { method: UiLocatorMethod; text: string; nth?: number };
+
+/** A field, or a button by its accessible name */
+export type UiLoginTarget = UiLoginField | { button: string };
+
+/** Post-login check, retried until the page settles so SSO redirects can finish */
+export type UiLoginSuccess = { url: string } | { text: string };
+
+/**
+ * One action of a login flow. `goto` paths and `fill` values may reference `{username}`,
+ * `{password}` and scenario variables.
+ */
+export type UiLoginStep =
+  | { goto: string }
+  | { fill: UiLoginField; value: string; mode?: UiInputMode }
+  | { click: UiLoginTarget }
+  | { press: string }
+  | { waitForUrl: string }
+  | { waitForText: string };
+
+export type UiLoginFlow = {
+  /** Login page, relative to the UI base URL or absolute (e.g. an SSO entry point); defaults to `UI_LOGIN_PATH` or `/login` */
+  path?: string;
+  /** Defaults to the `Username` placeholder */
+  username?: UiLoginField;
+  /** Defaults to the `Password` placeholder */
+  password?: UiLoginField;
+  /** Clicked between the username and password in two-step flows (username → next → password) */
+  next?: UiLoginTarget;
+  /** Defaults to the `Login` button; `{ press: 'Enter' }` submits from the keyboard */
+  submit?: UiLoginTarget | { press: string };
+  /** Without one, the flow ends as soon as the form is submitted */
+  success?: UiLoginSuccess;
+  /** Replaces `username`, `next`, `password` and `submit` for flows they cannot describe */
+  steps?: UiLoginStep[];
+};
+
+/** The actions a flow performs after opening its `path`. */
+export function uiLoginSteps(flow: UiLoginFlow = {}): UiLoginStep[] {
+  if (flow.steps) return flow.steps;
+  const submit = flow.submit ?? { button: 'Login' };
+  return [
+    { fill: flow.username ?? { method: 'placeholder', text: 'Username' }, value: '{username}' },
+    ...(flow.next ? [{ click: flow.next }] : []),
+    { fill: flow.password ?? { method: 'placeholder', text: 'Password' }, value: '{password}' },
+    'press' in submit ? { press: submit.press } : { click: submit },
+  ];
+}
+
+/**
+ * Opens the login page, performs the flow's steps and checks its success condition. Failures name
+ * the step that failed; credentials never appear in the message.
+ */
+export async function runUiLoginFlow(
+  ui: UiPort,
+  flow: UiLoginFlow = {},
+  vars: Record<string, string>,
+  label = 'UI login',
+): Promise<void> {
+  const steps: UiLoginStep[] = [{ goto: flow.path ?? process.env.UI_LOGIN_PATH ?? '/login' }, ...uiLoginSteps(flow)];
+  if (flow.success) steps.push('url' in flow.success ? { waitForUrl: flow.success.url } : { waitForText: flow.success.text });
+
+  for (const [i, step] of steps.entries()) {
+    try {
+      await runStep(ui, step, vars);
+    } catch (err) {
+      throw new Error(`${label} failed at step ${i + 1} (${describeStep(step)}): ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+}
+
+async function runStep(ui: UiPort, step: UiLoginStep, vars: Record<string, string>): Promise<void> {
+  if ('goto' in step) return ui.goto(interpolate(step.goto, vars));
+  if ('fill' in step) {
+    const { method, text, nth = 1 } = step.fill;
+    return ui.inputInElement(step.mode ?? 'fill', interpolate(step.value, vars), String(nth), text, method);
+  }
+  if ('click' in step) {
+    if ('button' in step.click) return ui.clickButton(step.click.button);
+    const { method, text, nth = 1 } = step.click;
+    return ui.clickElementWith('click', String(nth), text, method);
+  }
+  if ('press' in step) return ui.pressKey(step.press);
+  if ('waitForUrl' in step) return ui.expectUrlContains(interpolate(step.waitForUrl, vars));
+  return ui.expectText(interpolate(step.waitForText, vars));
+}
+
+function describeStep(step: UiLoginStep): string {
+  const target = (t: UiLoginTarget) => ('button' in t ? `button '${t.button}'` : `${t.method} '${t.text}'`);
+  if ('goto' in step) return `goto ${step.goto}`;
+  if ('fill' in step) return `fill ${target(step.fill)}`;
+  if ('click' in step) return `click ${target(step.click)}`;
+  if ('press' in step) return `press ${step.press}`;
+  if ('waitForUrl' in step) return `wait for URL containing '${step.waitForUrl}'`;
+  return `wait for text '${step.waitForText}'`;
+}
@@ -0,0 +1,67 @@
+import type { Page } from '@playwright/test';
+import type { AuthPort } from '../../ports/auth.port';
+import type { UiPort } from '../../ports/ui.port';
+import type { World } from '../../world';
+import { loginAs } from '../../utils';
+import type { UiSessionStore } from './ui-session-store';
+
+/**
+ * Wraps an `AuthPort` so UI logins reuse the worker's saved session for the role: the first login
+ * runs the inner flow and saves `storageState`, later ones load it and open `landingPath`.
+ * API logins are delegated unchanged.
+ */
+export class UiSessionAuthAdapter implements AuthPort {
+  constructor(
+    private readonly inner: AuthPort,
+    private readonly deps: {
+      sessions: UiSessionStore;
+      page: Page;
+      ui: UiPort;
+      /** Opened after a saved session is loaded (default `/`) */
+      landingPath?: string;
+    },
+  ) {}
+
+  apiLoginAs(world: World, profile: string): Promise<void> {
+    return loginAs(this.inner, 'api', world, profile);
+  }
+
+  apiLoginAsAdmin(world: World): Promise<void> {
+    return this.inner.apiLoginAsAdmin(world);
+  }
+
+  apiLoginAsUser(world: World): Promise<void> {
+    return this.inner.apiLoginAsUser(world);
+  }
+
+  apiSetBearer(world: World, token: string): void {
+    this.inner.apiSetBearer(world, token);
+  }
+
+  async uiLoginAs(world: World, profile: string): Promise<void> {
+    const context = this.deps.page.context();
+    if (world.uiSessionRole !== profile) {
+      const saved = this.deps.sessions.get(profile);
+      if (!saved) {
+        // Start from a logged-out context when switching away from another role's session
+        if (world.uiSessionRole) await this.deps.sessions.apply(context, { cookies: [], origins: [] });
+        await loginAs(this.inner, 'ui', world, profile);
+        await this.deps.page.waitForLoadState('networkidle');
+        this.deps.sessions.set(profile, await context.storageState());
+        world.uiSessionRole = profile;
+        return;
+      }
+      await this.deps.sessions.apply(context, saved);
+      world.uiSessionRole = profile;
+    }
+    await this.deps.ui.goto(this.deps.landingPath ?? '/');
+  }
+
+  uiLoginAsAdmin(world: World): Promise<void> {
+    return this.uiLoginAs(world, 'admin');
+  }
+
+  uiLoginAsUser(world: World): Promise<void> {
+    return this.uiLoginAs(world, 'user');
+  }
+}
@@ -0,0 +1,88 @@
+import type { BrowserContext } from '@playwright/test';
+
+export type StorageState = Awaited<ReturnType<BrowserContext['storageState']>>;
+
+/**
+ * Browser sessions (`storageState`) by credential profile, kept for the worker's lifetime so each
+ * role logs in through the UI once per worker.
+ */
+export class UiSessionStore {
+  private readonly states = new Map<string, StorageState>();
+  private readonly pending = new Map<string, Promise<StorageState>>();
+
+  get(role: string): StorageState | undefined {
+    return this.states.get(role);
+  }
+
+  set(role: string, state: StorageState): void {
+    this.states.set(role, state);
+  }
+
+  delete(role: string): void {
+    this.states.delete(role);
+  }
+
+  /** The role's saved session, creating it with `login` the first time. */
+  async ensure(role: string, login: () => Promise<StorageState>): Promise<StorageState> {
+    const saved = this.states.get(role);
+    if (saved) return saved;
+    let pending = this.pending.get(role);
+    if (!pending) {
+      pending = login().finally(() => this.pending.delete(role));
+      this.pending.set(role, pending);
+    }
+    const state = await pending;
+    this.states.set(role, state);
+    return state;
+  }
+
+  /**
+   * Loads a saved session into a running context, replacing its cookies and the localStorage of
+   * every origin the context or the session has data for. An empty state logs the context out.
+   */
+  async apply(context: BrowserContext, state: StorageState): Promise<void> {
+    const current = await context.storageState();
+    await context.clearCookies();
+    await context.addCookies(state.cookies);
+
+    const origins = new Set([...current.origins, ...state.origins].map((o) => o.origin));
+    if (!origins.size) return;
+    const page = await context.newPage();
+    try {
+      // A blank document per origin gives access to its storage without loading the app
+      await page.route('**/*', (route) => route.fulfill({ contentType: 'text/html', body: '<html></html>' }));
+      for (const origin of origins) {
+        const entries = state.origins.find((o) => o.origin === origin)?.localStorage ?? [];
+        await page.goto(origin);
+        await page.evaluate((items) => {
+          window.localStorage.clear();
+          for (const { name, value } of items) window.localStorage.setItem(name, value);
+        }, entries);
+      }
+    } finally {
+      await page.close();
+    }
+  }
+
+  /**
+   * Forgets the role's session when the context no longer holds one of its saved cookies or
+   * localStorage entries, i.e. the scenario logged out. Returns true when it was dropped.
+   */
+  async invalidateIfLoggedOut(role: string, context: BrowserContext): Promise<boolean> {
+    const saved = this.states.get(role);
+    if (!saved) return false;
+
+    const current = await context.storageState();
+    const cookieKey = (c: { name: string; domain: string; path: string }) => `${c.name};${c.domain};${c.path}`;
+    const live = new Set(current.cookies.filter((c) => c.expires === -1 || c.expires * 1000 > Date.now()).map(cookieKey));
+    const lostCookie = saved.cookies.some((c) => !live.has(cookieKey(c)));
+    const lostStorage = saved.origins.some(({ origin, localStorage }) => {
+      const now = current.origins.find((o) => o.origin === origin)?.localStorage || [];
+      return localStorage.some((entry) => !now.some((e) => e.name === entry.name));
+    });
+
+    if (!lostCookie && !lostStorage) return false;
+    this.states.delete(role);
+    return true;
+  }
+}
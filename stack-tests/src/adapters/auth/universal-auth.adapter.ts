@@ -2,63 +2,117 @@ import type { ApiPort } from '../../ports/api.port';
 import type { AuthPort } from '../../ports/auth.port';
 import type { UiPort } from '../../ports/ui.port';
 import type { World } from '../../world';
+import { clearApiResult } from '../../utils';
+import { CredentialRegistry, type CredentialProfile } from '../../credentials';
+import { tokenCacheKey, type TokenCache } from './token-cache';
+import { runUiLoginFlow, type UiLoginFlow } from './ui-login-flow';
 
 export class UniversalAuthAdapter implements AuthPort {
+  private readonly credentials: CredentialRegistry;
+
   constructor(
     private readonly deps: {
       api: ApiPort;
       ui: UiPort;
+      /** Defaults to a registry of the env-declared profiles plus `admin` and `user` */
+      credentials?: CredentialRegistry;
+      /** Reuses API tokens across scenarios; keys include `apiBaseUrl` */
+      tokenCache?: TokenCache;
+      apiBaseUrl?: string;
+      /** How `uiLoginAs` signs in; defaults to `/login` with `Username`/`Password` placeholders and a `Login` button */
+      uiLoginFlow?: UiLoginFlow;
     },
-  ) {}
+  ) {
+    this.credentials = deps.credentials ?? new CredentialRegistry();
+  }
 
   apiSetBearer(world: World, token: string): void {
-    world.headers = { ...(world.headers || {}), Authorization: `Bearer ${token}` };
+    world.authRefresh = undefined;
+    world.authRejected = undefined;
+    setBearer(world, token);
+  }
+
+  /**
+   * Uses a cached token when one is still valid; otherwise logs in and caches the token.
+   * With a cache, a token whose JWT `exp` is near is replaced by a fresh login before the next request,
+   * and a token the API rejects with 401 is dropped. A cache hit clears the last response.
+   */
+  async apiLoginAs(world: World, name: string): Promise<void> {
+    const profile = this.credentials.get(name);
+    const { tokenCache } = this.deps;
+    if (!tokenCache) {
+      this.apiSetBearer(world, await this.apiLogin(world, profile));
+      return;
+    }
+
+    const key = tokenCacheKey(profile, this.deps.apiBaseUrl ?? '');
+    const cached = tokenCache.get(key);
+    if (cached) clearApiResult(world);
+    let token = cached ?? tokenCache.set(key, { accessToken: await this.apiLogin(world, profile) });
+    setBearer(world, token.accessToken);
+
+    world.authRefresh = async (w) => {
+      if (tokenCache.isFresh(token)) return;
+      token = tokenCache.get(key) ?? tokenCache.set(key, { accessToken: await this.apiLogin(w, profile, false) });
+      setBearer(w, token.accessToken);
+    };
+    world.authRejected = (w) => {
+      if (w.headers.Authorization === `Bearer ${token.accessToken}`) tokenCache.delete(key);
+    };
   }
 
   async apiLoginAsAdmin(world: World): Promise<void> {
-    const username = process.env.DEFAULT_ADMIN_USERNAME || process.env.DEFAULT_ADMIN_EMAIL || 'admin@prima.com';
-    const password = process.env.DEFAULT_ADMIN_PASSWORD || 'admin1234';
-    await this.apiLogin(world, username, password);
+    await this.apiLoginAs(world, 'admin');
   }
 
   async apiLoginAsUser(world: World): Promise<void> {
-    const username = process.env.DEFAULT_USER_USERNAME || process.env.NON_ADMIN_USERNAME || 'bob@bob.com';
-    const password = process.env.DEFAULT_USER_PASSWORD || process.env.NON_ADMIN_PASSWORD || 'bob1234';
-    await this.apiLogin(world, username, password);
+    await this.apiLoginAs(world, 'user');
   }
 
-  private async apiLogin(world: World, username: string, password: string): Promise<void> {
-    const loginPath = process.env.API_AUTH_LOGIN_PATH || '/auth/login';
-    const result = await this.deps.api.sendForm('POST', loginPath, { username, password });
-    world.lastStatus = result.status;
-    world.lastText = result.text;
-    world.lastJson = result.json;
-    world.lastHeaders = result.headers;
+  /** Returns the access token; renewals pass `storeResult = false` so the last response is kept. */
+  private async apiLogin(world: World, profile: CredentialProfile, storeResult = true): Promise<string> {
+    const { username, password } = formCredentials(profile);
+    const result = await this.deps.api.sendForm('POST', profile.loginPath, { username, password });
+    if (storeResult) {
+      world.lastStatus = result.status;
+      world.lastText = result.text;
+      world.lastJson = result.json;
+      world.lastHeaders = result.headers;
+    }
 
     const json: any = (result.json || {}) as any;
     const token = json?.access_token;
     if (typeof token !== 'string' || !token) {
-      throw new Error(`API login failed for ${username}: ${result.status} ${result.text}`);
+      throw new Error(`API login failed for ${username} (profile '${profile.name}'): ${result.status} ${result.text}`);
     }
-    this.apiSetBearer(world, token);
+    return token;
+  }
+
+  async uiLoginAs(world: World, profile: string): Promise<void> {
+    await this.uiLogin(world, this.credentials.get(profile));
   }
 
   async uiLoginAsAdmin(world: World): Promise<void> {
-    const username = process.env.DEFAULT_ADMIN_USERNAME || process.env.DEFAULT_ADMIN_EMAIL || 'admin@prima.com';
-    const password = process.env.DEFAULT_ADMIN_PASSWORD || 'admin1234';
-    await this.uiLogin(world, username, password);
+    await this.uiLoginAs(world, 'admin');
   }
 
   async uiLoginAsUser(world: World): Promise<void> {
-    const username = process.env.DEFAULT_USER_USERNAME || process.env.NON_ADMIN_USERNAME || 'bob@bob.com';
-    const password = process.env.DEFAULT_USER_PASSWORD || process.env.NON_ADMIN_PASSWORD || 'bob1234';
-    await this.uiLogin(world, username, password);
+    await this.uiLoginAs(world, 'user');
+  }
+
+  private async uiLogin(world: World, profile: CredentialProfile): Promise<void> {
+    const { username, password } = formCredentials(profile);
+    await runUiLoginFlow(this.deps.ui, this.deps.uiLoginFlow, { ...world.vars, username, password }, `UI login as '${profile.name}'`);
   }
+}
+
+function setBearer(world: World, token: string): void {
+  world.headers = { ...(world.headers || {}), Authorization: `Bearer ${token}` };
+}
 
-  private async uiLogin(_world: World, username: string, password: string): Promise<void> {
-    await this.deps.ui.goto('/login');
-    await this.deps.ui.fillPlaceholder('Username', username);
-    await this.deps.ui.fillPlaceholder('Password', password);
-    await this.deps.ui.clickButton('Login');
+function formCredentials(profile: CredentialProfile): { username: string; password: string } {
+  if (profile.username === undefined || profile.password === undefined) {
+    throw new Error(`Credential profile '${profile.name}' has no username/password (grant ${profile.grant}); use OAuth2AuthAdapter for it`);
   }
+  return { username: profile.username, password: profile.password };
 }
@@ -0,0 +1,35 @@
+import type { APIRequestContext } from '@playwright/test';
+import type { GraphqlPort, GraphqlRequest, GraphqlResult } from '../../ports/graphql.port';
+import { tryParseJson } from '../../utils';
+
+export class PlaywrightGraphqlAdapter implements GraphqlPort {
+  private readonly endpoint: string;
+
+  constructor(
+    private readonly request: APIRequestContext,
+    options: { endpoint?: string } = {},
+  ) {
+    this.endpoint = options.endpoint || process.env.GRAPHQL_PATH || '/graphql';
+  }
+
+  async execute(request: GraphqlRequest, headers?: Record<string, string>): Promise<GraphqlResult> {
+    const resp = await this.request.post(this.endpoint, {
+      headers: { Accept: 'application/json', 'Content-Type': 'application/json', ...(headers || {}) },
+      data: request,
+    });
+    const text = await resp.text();
+    const respHeaders = resp.headers();
+    const json = tryParseJson(text) as any;
+
+    return {
+      status: resp.status(),
+      text,
+      json,
+      headers: respHeaders,
+      contentType: respHeaders['content-type'] || '',
+      response: resp,
+      data: json?.data,
+      errors: Array.isArray(json?.errors) ? json.errors : undefined,
+    };
+  }
+}
@@ -0,0 +1,184 @@
+import type { SseEvent, SseEventPredicate, SsePort, SseSubscription } from '../../ports/sse.port';
+import { tryParseJson } from '../../utils';
+
+export type FetchSseAdapterOptions = {
+  /** Base for relative paths, e.g. `http://localhost:4000` */
+  baseUrl?: string;
+  /** Time allowed for the response headers, in milliseconds */
+  connectTimeoutMs?: number;
+};
+
+type Waiter = { predicate: SseEventPredicate; resolve: (e: SseEvent) => void; reject: (err: Error) => void };
+
+class FetchSseSubscription implements SseSubscription {
+  private received: SseEvent[] = [];
+  private consumed = new Set<SseEvent>();
+  private waiters: Waiter[] = [];
+  private open = true;
+  private lastEventId?: string;
+  private readonly done: Promise<void>;
+
+  constructor(
+    private readonly url: string,
+    body: ReadableStream<Uint8Array>,
+    private readonly controller: AbortController,
+  ) {
+    this.done = this.read(body);
+  }
+
+  async waitForEvent(predicate: SseEventPredicate, timeoutMs: number): Promise<SseEvent> {
+    const buffered = this.received.find((e) => !this.consumed.has(e) && predicate(e));
+    if (buffered) {
+      this.consumed.add(buffered);
+      return buffered;
+    }
+    if (!this.open) throw new Error(`Event stream ${this.url} is closed (${this.received.length} event(s) received)`);
+
+    return new Promise<SseEvent>((resolve, reject) => {
+      const finish = (): void => {
+        clearTimeout(timer);
+        this.waiters = this.waiters.filter((w) => w !== waiter);
+      };
+      const waiter: Waiter = {
+        predicate,
+        resolve: (e) => {
+          finish();
+          resolve(e);
+        },
+        reject: (err) => {
+          finish();
+          reject(err);
+        },
+      };
+      const timer = setTimeout(
+        () => waiter.reject(new Error(`No matching event on ${this.url} within ${timeoutMs} ms (${this.received.length} received)`)),
+        timeoutMs,
+      );
+      this.waiters.push(waiter);
+    });
+  }
+
+  async take(count: number, timeoutMs: number): Promise<SseEvent[]> {
+    const deadline = Date.now() + timeoutMs;
+    const events: SseEvent[] = [];
+    while (events.length < count) {
+      try {
+        events.push(await this.waitForEvent(() => true, Math.max(0, deadline - Date.now())));
+      } catch (err) {
+        throw new Error(`Collected ${events.length} of ${count} event(s): ${(err as Error).message}`);
+      }
+    }
+    return events;
+  }
+
+  events(): SseEvent[] {
+    return [...this.received];
+  }
+
+  isOpen(): boolean {
+    return this.open;
+  }
+
+  async close(): Promise<void> {
+    if (this.open) this.controller.abort();
+    await this.done;
+  }
+
+  private async read(body: ReadableStream<Uint8Array>): Promise<void> {
+    const decoder = new TextDecoder();
+    const reader = body.getReader();
+    let buffer = '';
+    let fields: { event?: string; data: string[]; id?: string } = { data: [] };
+
+    try {
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        for (;;) {
+          const newline = buffer.search(/\r\n|\r|\n/);
+          // A trailing CR may be the first half of a CRLF split across chunks
+          if (newline < 0 || (newline === buffer.length - 1 && buffer[newline] === '\r')) break;
+          const line = buffer.slice(0, newline);
+          buffer = buffer.slice(newline + (buffer.startsWith('\r\n', newline) ? 2 : 1));
+
+          if (line === '') {
+            this.dispatch(fields);
+            fields = { data: [] };
+            continue;
+          }
+          if (line.startsWith(':')) continue;
+          const colon = line.indexOf(':');
+          const name = colon < 0 ? line : line.slice(0, colon);
+          const value = colon < 0 ? '' : line.slice(colon + 1).replace(/^ /, '');
+          if (name === 'event') fields.event = value;
+          else if (name === 'data') fields.data.push(value);
+          else if (name === 'id' && !value.includes('\0')) fields.id = value;
+        }
+      }
+    } catch {
+      // Aborted by close() or the connection dropped; either way the stream is over
+    } finally {
+      this.open = false;
+      for (const waiter of [...this.waiters]) {
+        waiter.reject(new Error(`Event stream ${this.url} closed (${this.received.length} event(s) received)`));
+      }
+    }
+  }
+
+  private dispatch(fields: { event?: string; data: string[]; id?: string }): void {
+    if (fields.id !== undefined) this.lastEventId = fields.id;
+    if (!fields.data.length) return;
+
+    const data = fields.data.join('\n');
+    const event: SseEvent = {
+      event: fields.event || 'message',
+      data,
+      json: tryParseJson(data),
+      id: this.lastEventId,
+      receivedAt: Date.now(),
+    };
+    this.received.push(event);
+
+    const waiter = this.waiters.find((w) => w.predicate(event));
+    if (waiter) {
+      this.consumed.add(event);
+      waiter.resolve(event);
+    }
+  }
+}
+
+/**
+ * Server-Sent Events over Node's `fetch`, which (unlike Playwright's request context) exposes
+ * the response body as a stream.
+ */
+export class FetchSseAdapter implements SsePort {
+  constructor(private readonly options: FetchSseAdapterOptions = {}) {}
+
+  async subscribe(path: string, headers?: Record<string, string>): Promise<SseSubscription> {
+    const url = new URL(path, this.options.baseUrl || 'http://localhost:4000').toString();
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.options.connectTimeoutMs ?? 10000);
+
+    let resp: Response;
+    try {
+      resp = await fetch(url, {
+        headers: { Accept: 'text/event-stream', 'Cache-Control': 'no-cache', ...(headers || {}) },
+        signal: controller.signal,
+      });
+    } catch (err) {
+      throw new Error(`Event stream ${url} failed to open: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    const contentType = resp.headers.get('content-type') || '';
+    if (!resp.ok || !contentType.includes('text/event-stream') || !resp.body) {
+      const text = await resp.text().catch(() => '');
+      controller.abort();
+      throw new Error(`Expected a text/event-stream response from ${url} but got ${resp.status} (${contentType || 'no content type'}): ${text}`);
+    }
+    return new FetchSseSubscription(url, resp.body, controller);
+  }
+}
@@ -0,0 +1,110 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import type { StubRequest, StubResponse, StubServerPort } from '../../ports/stub.port';
+import { tryParseJson } from '../../utils';
+
+type StubRoute = { method: string; path: string; response: StubResponse };
+
+/**
+ * Local HTTP server standing in for third-party APIs. Each named stub is mounted under
+ * `/<name>`, so one server per worker can serve several stubs.
+ */
+export class HttpStubServer implements StubServerPort {
+  private server?: Server;
+  private baseUrl = '';
+  private routes = new Map<string, StubRoute[]>();
+  private received = new Map<string, StubRequest[]>();
+
+  constructor(private readonly options: { host?: string; port?: number } = {}) {}
+
+  async start(): Promise<void> {
+    if (this.server) return;
+    const host = this.options.host || '127.0.0.1';
+    const server = createServer((req, res) => {
+      // An aborted request or a bad configured status must not become an unhandled rejection
+      this.handle(req, res).catch((err: unknown) => {
+        if (res.headersSent) {
+          res.destroy();
+          return;
+        }
+        res.writeHead(500, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: `Stub server error: ${err instanceof Error ? err.message : String(err)}` }));
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port ?? 0, host, () => resolve());
+    });
+    this.server = server;
+    this.baseUrl = `http://${host}:${(server.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = undefined;
+    await new Promise<void>((resolve) => {
+      server.close(() => resolve());
+      server.closeAllConnections();
+    });
+  }
+
+  url(name: string): string {
+    if (!this.server) throw new Error('Stub server is not running');
+    return `${this.baseUrl}/${encodeURIComponent(name)}`;
+  }
+
+  respond(name: string, method: string, path: string, response: StubResponse): void {
+    const routes = this.routes.get(name) ?? [];
+    routes.unshift({ method: method.toUpperCase(), path: normalizePath(path), response });
+    this.routes.set(name, routes);
+  }
+
+  requests(name: string, method?: string, path?: string): StubRequest[] {
+    return (this.received.get(name) ?? []).filter(
+      (r) => (!method || r.method === method.toUpperCase()) && (!path || r.path === normalizePath(path)),
+    );
+  }
+
+  reset(): void {
+    this.routes.clear();
+    this.received.clear();
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const body = Buffer.concat(chunks).toString('utf8');
+
+    const [rawPath, query = ''] = (req.url || '/').split('?', 2);
+    const [, encodedName = '', ...rest] = rawPath.split('/');
+    const name = decodeURIComponent(encodedName);
+    const request: StubRequest = {
+      method: (req.method || 'GET').toUpperCase(),
+      path: normalizePath(`/${rest.join('/')}`),
+      query,
+      headers: req.headers as Record<string, string>,
+      body,
+      json: tryParseJson(body),
+    };
+    this.received.set(name, [...(this.received.get(name) ?? []), request]);
+
+    const route = (this.routes.get(name) ?? []).find((r) => r.method === request.method && r.path === request.path);
+    if (!route) {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: `No stub '${name}' response for ${request.method} ${request.path}` }));
+      return;
+    }
+
+    const { status, body: responseBody = '', headers = {} } = route.response;
+    const hasContentType = Object.keys(headers).some((h) => h.toLowerCase() === 'content-type');
+    const contentType = tryParseJson(responseBody) !== undefined ? 'application/json' : 'text/plain';
+    res.writeHead(status, hasContentType || !responseBody ? headers : { 'Content-Type': contentType, ...headers });
+    res.end(responseBody);
+  }
+}
+
+function normalizePath(path: string): string {
+  const trimmed = path.split('?', 1)[0].replace(/\/+$/, '');
+  return trimmed.startsWith('/') ? trimmed || '/' : `/${trimmed}`;
+}
@@ -0,0 +1,172 @@
+import type { WsMessage, WsMessagePredicate, WsPort } from '../../ports/ws.port';
+import { tryParseJson } from '../../utils';
+
+// Minimal surface of the `ws` package used here
+interface WsSocket {
+  readyState: number;
+  send(data: string, cb?: (err?: Error) => void): void;
+  close(): void;
+  terminate(): void;
+  on(event: 'open', listener: () => void): this;
+  on(event: 'message', listener: (data: Buffer | ArrayBuffer | Buffer[], isBinary: boolean) => void): this;
+  on(event: 'close', listener: () => void): this;
+  on(event: 'error', listener: (err: Error) => void): this;
+  once(event: 'close', listener: () => void): this;
+}
+
+interface WsModule {
+  default: new (url: string, options?: { headers?: Record<string, string> }) => WsSocket;
+}
+
+const OPEN = 1;
+
+export type NodeWsAdapterOptions = {
+  /** Base for relative URLs, e.g. `ws://localhost:4000` */
+  baseUrl?: string;
+  /** Connection timeout in milliseconds */
+  connectTimeoutMs?: number;
+};
+
+type Waiter = { predicate: WsMessagePredicate; resolve: (m: WsMessage) => void };
+
+/**
+ * WebSocket adapter for Node using the `ws` package (optional peer dependency).
+ */
+export class NodeWsAdapter implements WsPort {
+  private socket: WsSocket | null = null;
+  private received: WsMessage[] = [];
+  private consumed = new Set<WsMessage>();
+  private waiters: Waiter[] = [];
+  private wsModule: WsModule | null = null;
+
+  constructor(private readonly options: NodeWsAdapterOptions = {}) {}
+
+  /**
+   * Lazily load the ws module to support optional dependency
+   */
+  private async loadWs(): Promise<WsModule> {
+    if (this.wsModule) {
+      return this.wsModule;
+    }
+
+    try {
+      // @ts-expect-error - ws is an optional peer dependency
+      const module = (await import('ws')) as WsModule;
+      this.wsModule = module;
+      return module;
+    } catch (error) {
+      throw new Error('ws is not installed. Please install it with: npm install ws');
+    }
+  }
+
+  async connect(url: string, headers?: Record<string, string>): Promise<void> {
+    await this.close();
+    const { default: WebSocket } = await this.loadWs();
+    const target = /^wss?:\/\//.test(url) ? url : new URL(url, this.options.baseUrl || 'ws://localhost:4000').toString();
+
+    const socket = new WebSocket(target, { headers });
+    this.received = [];
+    this.consumed.clear();
+    socket.on('message', (data) => {
+      this.onMessage(Array.isArray(data) ? Buffer.concat(data) : Buffer.isBuffer(data) ? data : Buffer.from(data));
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        socket.terminate();
+        reject(new Error(`WebSocket connection to ${target} timed out`));
+      }, this.options.connectTimeoutMs ?? 10000);
+      socket.on('open', () => {
+        clearTimeout(timer);
+        resolve();
+      });
+      socket.on('error', (err) => {
+        clearTimeout(timer);
+        reject(new Error(`WebSocket connection to ${target} failed: ${err.message}`));
+      });
+    });
+    this.socket = socket;
+  }
+
+  async send(data: string | object): Promise<void> {
+    const socket = this.socket;
+    if (!socket || socket.readyState !== OPEN) {
+      throw new Error('WebSocket is not connected. Connect first.');
+    }
+    const payload = typeof data === 'string' ? data : JSON.stringify(data);
+    await new Promise<void>((resolve, reject) => socket.send(payload, (err) => (err ? reject(err) : resolve())));
+  }
+
+  async waitForMessage(predicate: WsMessagePredicate, timeoutMs: number): Promise<WsMessage> {
+    const buffered = this.received.find((m) => !this.consumed.has(m) && predicate(m));
+    if (buffered) {
+      this.consumed.add(buffered);
+      return buffered;
+    }
+
+    return new Promise<WsMessage>((resolve, reject) => {
+      const waiter: Waiter = {
+        predicate,
+        resolve: (m) => {
+          clearTimeout(timer);
+          resolve(m);
+        },
+      };
+      const timer = setTimeout(() => {
+        this.waiters = this.waiters.filter((w) => w !== waiter);
+        reject(new Error(`No matching WebSocket message within ${timeoutMs} ms (${this.received.length} received)`));
+      }, timeoutMs);
+      this.waiters.push(waiter);
+    });
+  }
+
+  async expectNoMessage(predicate: WsMessagePredicate, timeoutMs: number): Promise<void> {
+    const unexpected = await this.waitForMessage(predicate, timeoutMs).catch(() => undefined);
+    if (unexpected) {
+      throw new Error(`Unexpected WebSocket message: ${unexpected.data}`);
+    }
+  }
+
+  messages(): WsMessage[] {
+    return [...this.received];
+  }
+
+  async close(): Promise<void> {
+    const socket = this.socket;
+    if (!socket) return;
+    this.socket = null;
+    this.waiters = [];
+    if (socket.readyState !== OPEN) {
+      socket.terminate();
+      return;
+    }
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(() => {
+        socket.terminate();
+        resolve();
+      }, 2000);
+      socket.once('close', () => {
+        clearTimeout(timer);
+        resolve();
+      });
+      socket.close();
+    });
+  }
+
+  isConnected(): boolean {
+    return this.socket?.readyState === OPEN;
+  }
+
+  private onMessage(raw: Buffer): void {
+    const data = raw.toString('utf8');
+    const message: WsMessage = { data, json: tryParseJson(data), receivedAt: Date.now() };
+    this.received.push(message);
+
+    const waiter = this.waiters.find((w) => w.predicate(message));
+    if (waiter) {
+      this.waiters = this.waiters.filter((w) => w !== waiter);
+      this.consumed.add(message);
+      waiter.resolve(message);
+    }
+  }
+}
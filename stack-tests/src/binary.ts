@@ -0,0 +1,74 @@
+import { createHash } from 'crypto';
+
+type Signature = { type: string; bytes: number[]; offset?: number };
+
+// Checked in order; more specific signatures first
+const SIGNATURES: Signature[] = [
+  { type: 'pdf', bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] },
+  { type: 'png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { type: 'jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { type: 'gif', bytes: [0x47, 0x49, 0x46, 0x38] },
+  { type: 'webp', bytes: [0x57, 0x45, 0x42, 0x50], offset: 8 },
+  { type: 'gzip', bytes: [0x1f, 0x8b] },
+  { type: 'zip', bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { type: 'zip', bytes: [0x50, 0x4b, 0x05, 0x06] },
+];
+
+/** File types `detectFileType` can return; `xlsx`/`docx` are zip archives with an Office layout. */
+export const FILE_TYPES = ['pdf', 'png', 'jpeg', 'gif', 'webp', 'gzip', 'zip', 'xlsx', 'docx'];
+
+/** Identify a file by its magic number. Returns undefined for unknown (including plain text) content. */
+export function detectFileType(buffer: Buffer): string | undefined {
+  const match = SIGNATURES.find(({ bytes, offset = 0 }) => bytes.every((b, i) => buffer[offset + i] === b));
+  if (match?.type !== 'zip') return match?.type;
+  // Office Open XML files are zips whose entries live under xl/ or word/
+  const head = buffer.subarray(0, Math.min(buffer.length, 4096)).toString('latin1');
+  if (head.includes('xl/')) return 'xlsx';
+  if (head.includes('word/')) return 'docx';
+  return 'zip';
+}
+
+export function sha256(buffer: Buffer): string {
+  return createHash('sha256').update(buffer).digest('hex');
+}
+
+/** Parse RFC 4180 CSV: quoted fields, doubled quotes, CRLF or LF line endings. A trailing newline is ignored. */
+export function parseCsv(text: string, delimiter = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
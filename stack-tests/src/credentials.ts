@@ -0,0 +1,131 @@
+export type OAuth2Grant = 'password' | 'client_credentials';
+
+const OAUTH2_GRANTS: OAuth2Grant[] = ['password', 'client_credentials'];
+
+/** A named set of credentials, e.g. `admin`, `auditor` or `tenant-admin`. */
+export type CredentialProfile = {
+  name: string;
+  /** Required unless `grant` is `client_credentials` */
+  username?: string;
+  password?: string;
+  /** Form login endpoint; defaults to `API_AUTH_LOGIN_PATH` or `/auth/login` */
+  loginPath: string;
+  /** OAuth2 grant used by `OAuth2AuthAdapter`; defaults to `password` */
+  grant?: OAuth2Grant;
+  clientId?: string;
+  clientSecret?: string;
+  /** Space-separated OAuth2 scopes */
+  scope?: string;
+  audience?: string;
+  /** OAuth2 token endpoint; may reference scenario variables, e.g. `{stub_idp_url}/token` */
+  tokenUrl?: string;
+};
+
+export type CredentialProfileConfig = Partial<Omit<CredentialProfile, 'name'>>;
+
+/** Profiles by name, as passed to `createBddTest({ credentials })` */
+export type CredentialProfiles = Record<string, CredentialProfileConfig>;
+
+type Env = Record<string, string | undefined>;
+
+const FIELD_ENV: Record<keyof CredentialProfileConfig, string> = {
+  username: 'USERNAME',
+  password: 'PASSWORD',
+  loginPath: 'LOGIN_PATH',
+  grant: 'GRANT',
+  clientId: 'CLIENT_ID',
+  clientSecret: 'CLIENT_SECRET',
+  scope: 'SCOPE',
+  audience: 'AUDIENCE',
+  tokenUrl: 'TOKEN_URL',
+};
+
+// Variables the admin and user profiles were read from before profiles existed, and the built-in
+// demo credentials that only apply with `legacyDefaults`
+const LEGACY: Record<string, { env: Partial<Record<keyof CredentialProfileConfig, string[]>>; defaults: CredentialProfileConfig }> = {
+  admin: {
+    env: { username: ['DEFAULT_ADMIN_USERNAME', 'DEFAULT_ADMIN_EMAIL'], password: ['DEFAULT_ADMIN_PASSWORD'] },
+    defaults: { username: 'admin@prima.com', password: 'admin1234' },
+  },
+  user: {
+    env: { username: ['DEFAULT_USER_USERNAME', 'NON_ADMIN_USERNAME'], password: ['DEFAULT_USER_PASSWORD', 'NON_ADMIN_PASSWORD'] },
+    defaults: { username: 'bob@bob.com', password: 'bob1234' },
+  },
+};
+
+/** Env variable prefix for a profile: `tenant-admin` → `AUTH_PROFILE_TENANT_ADMIN_`. */
+export function profileEnvPrefix(name: string): string {
+  return `AUTH_PROFILE_${name.toUpperCase().replace(/[^A-Z0-9]+/g, '_')}_`;
+}
+
+export type CredentialRegistryOptions = {
+  /**
+   * Fall back to the demo credentials `admin@prima.com`/`admin1234` and `bob@bob.com`/`bob1234`
+   * for `admin` and `user`. Off by default, so every profile's credentials come from env or config.
+   */
+  legacyDefaults?: boolean;
+};
+
+/**
+ * Resolves credential profiles from config and env. For each field, `AUTH_PROFILE_<NAME>_<FIELD>`
+ * wins over the configured value; `admin` and `user` also fall back to their legacy variables.
+ */
+export class CredentialRegistry {
+  constructor(
+    private readonly profiles: CredentialProfiles = {},
+    private readonly env: Env = process.env,
+    private readonly options: CredentialRegistryOptions = {},
+  ) {}
+
+  /** Configured, legacy and env-declared (`AUTH_PROFILE_<NAME>_USERNAME` or `_CLIENT_ID`) profile names */
+  names(): string[] {
+    const fromEnv = Object.keys(this.env)
+      .map((key) => /^AUTH_PROFILE_(.+)_(USERNAME|CLIENT_ID)$/.exec(key)?.[1])
+      .filter((name): name is string => !!name)
+      .map((name) => name.toLowerCase().replace(/_/g, '-'));
+    const legacy = Object.keys(LEGACY).filter((name) => this.has(name));
+    return [...new Set([...legacy, ...Object.keys(this.profiles), ...fromEnv])];
+  }
+
+  has(name: string): boolean {
+    return (Object.keys(FIELD_ENV) as Array<keyof CredentialProfileConfig>).some((field) => this.field(name, field) !== undefined);
+  }
+
+  get(name: string): CredentialProfile {
+    if (!this.has(name)) {
+      throw new Error(`Unknown credential profile '${name}' (known: ${this.names().join(', ')}); set ${profileEnvPrefix(name)}USERNAME or configure it`);
+    }
+    const grant = this.field(name, 'grant') as OAuth2Grant | undefined;
+    if (grant !== undefined && !OAUTH2_GRANTS.includes(grant)) {
+      throw new Error(`Credential profile '${name}' has unsupported grant '${grant}' (supported: ${OAUTH2_GRANTS.join(', ')})`);
+    }
+    const profile: CredentialProfile = {
+      name,
+      username: this.field(name, 'username'),
+      password: this.field(name, 'password'),
+      loginPath: this.field(name, 'loginPath') ?? this.env.API_AUTH_LOGIN_PATH ?? '/auth/login',
+      grant,
+      clientId: this.field(name, 'clientId'),
+      clientSecret: this.field(name, 'clientSecret'),
+      scope: this.field(name, 'scope'),
+      audience: this.field(name, 'audience'),
+      tokenUrl: this.field(name, 'tokenUrl'),
+    };
+    if (grant !== 'client_credentials') {
+      if (profile.username === undefined) throw new Error(`Credential profile '${name}' has no username; set ${profileEnvPrefix(name)}USERNAME`);
+      if (profile.password === undefined) throw new Error(`Credential profile '${name}' has no password; set ${profileEnvPrefix(name)}PASSWORD`);
+    }
+    return profile;
+  }
+
+  private field(name: string, field: keyof CredentialProfileConfig): string | undefined {
+    const fromEnv = this.env[`${profileEnvPrefix(name)}${FIELD_ENV[field]}`];
+    if (fromEnv) return fromEnv;
+    const configured = this.profiles[name]?.[field];
+    if (configured !== undefined) return configured;
+    const legacy = LEGACY[name];
+    if (!legacy) return undefined;
+    const legacyEnv = legacy.env[field]?.map((key) => this.env[key]).find(Boolean);
+    return legacyEnv ?? (this.options.legacyDefaults ? legacy.defaults[field] : undefined);
+  }
+}
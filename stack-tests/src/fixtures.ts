@@ -1,25 +1,58 @@
 import { test as base } from 'playwright-bdd';
-import type { APIRequestContext, Page, PlaywrightTestArgs, PlaywrightWorkerArgs } from '@playwright/test';
+import type { APIRequestContext, BrowserContextOptions, Page, PlaywrightTestArgs, PlaywrightWorkerArgs, TestInfo } from '@playwright/test';
 import { initWorld, type World } from './world';
 import type { ApiPort } from './ports/api.port';
 import type { UiPort } from './ports/ui.port';
 import type { AuthPort } from './ports/auth.port';
 import type { CleanupPort } from './ports/cleanup.port';
 import type { TuiPort, TuiConfig } from './ports/tui.port';
+import type { GraphqlPort } from './ports/graphql.port';
+import type { StubServerPort } from './ports/stub.port';
+import type { WsPort } from './ports/ws.port';
+import type { SsePort } from './ports/sse.port';
 import { PlaywrightApiAdapter } from './adapters/api/playwright-api.adapter';
 import { PlaywrightUiAdapter } from './adapters/ui/playwright-ui.adapter';
 import { UniversalAuthAdapter } from './adapters/auth/universal-auth.adapter';
 import { DefaultCleanupAdapter } from './adapters/cleanup/default-cleanup.adapter';
+import { PlaywrightGraphqlAdapter } from './adapters/graphql/playwright-graphql.adapter';
+import { HttpStubServer } from './adapters/stub/http-stub.adapter';
+import { NodeWsAdapter } from './adapters/ws/node-ws.adapter';
+import { FetchSseAdapter } from './adapters/sse/fetch-sse.adapter';
+import { OpenApiContract, type OpenApiContractOptions } from './openapi';
+import type { ApiRetryPolicy } from './adapters/api/retry';
+import { ApiTrafficRecorder, resolveTrafficMode, type ApiTrafficOptions } from './adapters/api/traffic';
+import { LATENCY_ATTACHMENT, type LatencyBudgets, type LatencySample } from './latency';
+import { CassetteApiAdapter, cassettePath, resolveCassetteMode, type CassetteOptions } from './adapters/api/cassette-api.adapter';
+import { ApiPaginator, type PaginationOptions } from './adapters/api/pagination';
+import { CredentialRegistry, type CredentialProfile, type CredentialProfiles } from './credentials';
+import { loginAs } from './utils';
+import { TokenCache, tokenCacheKey, type TokenCacheOptions } from './adapters/auth/token-cache';
+import { UiSessionStore, type StorageState } from './adapters/auth/ui-session-store';
+import { UiSessionAuthAdapter } from './adapters/auth/ui-session-auth.adapter';
+import type { UiLoginFlow } from './adapters/auth/ui-login-flow';
 
-let cachedAdminToken: string | undefined;
-
-async function getAdminHeaders(request: APIRequestContext): Promise<Record<string, string>> {
-  if (cachedAdminToken) return { Authorization: `Bearer ${cachedAdminToken}` };
-
-  const username = process.env.DEFAULT_ADMIN_USERNAME || process.env.DEFAULT_ADMIN_EMAIL || 'admin@prima.com';
-  const password = process.env.DEFAULT_ADMIN_PASSWORD || 'admin1234';
-  const loginPath = process.env.API_AUTH_LOGIN_PATH || '/auth/login';
+/**
+ * Cleanup runs as the `admin` profile, sharing its cached token with `I am authenticated as an admin via API`
+ * when `tokenCache` is configured. `key` is the cache entry to drop if the token is rejected.
+ */
+async function getAdminHeaders(
+  request: APIRequestContext,
+  credentials: CredentialRegistry,
+  tokenCache: TokenCache,
+  baseUrl: string,
+): Promise<{ headers: Record<string, string>; key?: string }> {
+  let admin: CredentialProfile;
+  try {
+    admin = credentials.get('admin');
+  } catch (err) {
+    console.warn(`cleanup auth skipped: ${err instanceof Error ? err.message : String(err)}`);
+    return { headers: {} };
+  }
+  const key = tokenCacheKey(admin, baseUrl);
+  const cached = tokenCache.get(key);
+  if (cached) return { headers: { Authorization: `Bearer ${cached.accessToken}` }, key };
 
+  const { username = '', password = '', loginPath } = admin;
   const body = new URLSearchParams({ username, password }).toString();
   const resp = await request.post(loginPath, {
     headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
@@ -28,23 +61,48 @@ async function getAdminHeaders(request: APIRequestContext): Promise<Record<strin
 
   if (!resp.ok()) {
     console.warn(`cleanup auth failed: ${resp.status()} ${resp.statusText()}`);
-    cachedAdminToken = undefined;
-    return {};
+    return { headers: {} };
   }
 
   const json = (await resp.json()) as any;
   const token = json?.access_token;
   if (typeof token === 'string' && token) {
-    cachedAdminToken = token;
-    return { Authorization: `Bearer ${token}` };
+    tokenCache.set(key, { accessToken: token });
+    return { headers: { Authorization: `Bearer ${token}` }, key };
   }
 
   console.warn('cleanup auth missing access_token in response');
-  cachedAdminToken = undefined;
-  return {};
+  return { headers: {} };
 }
 
-type CreateContext = PlaywrightTestArgs & PlaywrightWorkerArgs & { apiRequest: APIRequestContext; page: Page };
+function resolveApiBaseUrl(testInfo: TestInfo): string {
+  const projectName = String(testInfo.project.name || '');
+  const baseURLFromProject = testInfo.project.use?.baseURL as string | undefined;
+
+  return (
+    process.env.API_BASE_URL ||
+    process.env.CONTROL_TOWER_BASE_URL ||
+    (projectName.includes('api') ? baseURLFromProject : undefined) ||
+    (process.env.CONTROL_TOWER_PORT ? `http://localhost:${process.env.CONTROL_TOWER_PORT}` : undefined) ||
+    'http://localhost:4000'
+  );
+}
+
+type CreateContext = PlaywrightTestArgs &
+  PlaywrightWorkerArgs & {
+    apiRequest: APIRequestContext;
+    page: Page;
+    testInfo: TestInfo;
+    contract?: OpenApiContract;
+    retry?: ApiRetryPolicy;
+    traffic?: ApiTrafficRecorder;
+    latencySamples?: LatencySample[];
+    credentials: CredentialRegistry;
+    /** Set only when the `tokenCache` option is */
+    tokenCache?: TokenCache;
+    apiBaseUrl: string;
+    uiLoginFlow?: UiLoginFlow;
+  };
 
 /**
  * Factory function type for creating a TUI adapter.
@@ -52,11 +110,28 @@ type CreateContext = PlaywrightTestArgs & PlaywrightWorkerArgs & { apiRequest: A
  */
 export type TuiFactory = () => TuiPort | undefined;
 
+export type UiSessionOptions = {
+  /** Profile every `@ui` scenario starts logged in as; `@session:<profile>` picks another per scenario */
+  role?: string;
+  /** How a profile's session is first created: the UI login flow (default) or a form POST to its `loginPath` */
+  via?: 'ui' | 'api';
+  /** Page opened when a login step reuses a saved session (default `/`) */
+  landingPath?: string;
+};
+
 export type CreateBddTestOptions = {
   createApi?: (ctx: CreateContext) => ApiPort;
   createUi?: (ctx: CreateContext) => UiPort;
   createAuth?: (ctx: CreateContext & { api: ApiPort; ui: UiPort }) => AuthPort;
   createCleanup?: (ctx: CreateContext) => CleanupPort;
+  createGraphql?: (ctx: CreateContext) => GraphqlPort;
+  /**
+   * Factory for the WebSocket adapter. The default connects relative paths against
+   * `WS_BASE_URL`, or the API base URL with its scheme switched to `ws`.
+   */
+  createWs?: (ctx: CreateContext) => WsPort;
+  /** Factory for the Server-Sent Events adapter; the default uses the API base URL. */
+  createSse?: (ctx: CreateContext) => SsePort;
   /**
    * Factory function for creating a TUI adapter.
    * Unlike other adapters, this is a simple factory that doesn't receive context,
@@ -72,37 +147,186 @@ export type CreateBddTestOptions = {
    */
   createTui?: TuiFactory;
   worldFactory?: () => World;
+  /**
+   * OpenAPI 3 contract enforced on every call made through the default API adapter.
+   * In `strict` mode a violation fails the step; in `report` mode it is only attached to the test.
+   *
+   * @example
+   * ```typescript
+   * openapi: { spec: './openapi.json', mode: 'report' },
+   * ```
+   */
+  openapi?: OpenApiContractOptions;
+  /**
+   * Retry policy for the default API adapter, e.g. for transient 503s from a shared gateway.
+   * Only GET, HEAD and OPTIONS are retried unless `methods` opts mutating methods in.
+   *
+   * @example
+   * ```typescript
+   * apiRetry: { maxAttempts: 3, retryOnStatus: [502, 503], baseDelayMs: 250 },
+   * ```
+   */
+  apiRetry?: ApiRetryPolicy;
+  /**
+   * Traffic recording for the default API adapter. Exchanges are attached to the test as
+   * `api traffic.har` and `api traffic.md`, with sensitive headers and body fields redacted.
+   * The mode defaults to `API_TRAFFIC` or `on-failure`.
+   *
+   * @example
+   * ```typescript
+   * apiTraffic: { mode: 'always', redactHeaders: ['authorization', 'x-tenant-secret'] },
+   * ```
+   */
+  apiTraffic?: ApiTrafficOptions;
+  /**
+   * Record/replay for the `api` fixture. `record` stores each scenario's exchanges in a cassette
+   * file; `replay` serves them back without network access (cleanup calls are skipped).
+   * The mode defaults to `API_CASSETTE_MODE` or `off`.
+   *
+   * @example
+   * ```typescript
+   * apiCassettes: { mode: process.env.CI ? 'replay' : 'off', dir: 'tests/cassettes' },
+   * ```
+   */
+  apiCassettes?: CassetteOptions;
+  /**
+   * Latency budgets (`[METHOD] path pattern` → p95 ms) evaluated across the whole run by
+   * `ApiLatencyReporter`. Each test attaches its request timings for the reporter to aggregate.
+   *
+   * @example
+   * ```typescript
+   * apiLatencyBudgets: { 'GET /users/:id': 150, 'POST /orders': 400, '/reports/**': 2000 },
+   * ```
+   */
+  apiLatencyBudgets?: LatencyBudgets;
+  /**
+   * Pagination for `I GET all pages of ...` steps: the default strategy (`cursor`, `page`, `link`
+   * or a custom `PaginationStrategy`), extra named strategies and the page cap.
+   * The strategy defaults to `API_PAGINATION` or `link`; the cap to `API_MAX_PAGES` or 50.
+   *
+   * @example
+   * ```typescript
+   * apiPagination: { strategy: cursorPagination({ cursorPath: 'meta.next' }), maxPages: 20 },
+   * ```
+   */
+  apiPagination?: PaginationOptions;
+  /**
+   * Credential profiles by name, for `I am authenticated as "<profile>" via API` and
+   * `I log in as "<profile>" in UI`. `AUTH_PROFILE_<NAME>_USERNAME` / `_PASSWORD` / `_LOGIN_PATH`
+   * override these and can declare profiles on their own; `admin` and `user` are built in.
+   *
+   * @example
+   * ```typescript
+   * credentials: { auditor: { username: 'audit@example.com' }, 'tenant-admin': { loginPath: '/tenants/auth/login' } },
+   * ```
+   */
+  credentials?: CredentialProfiles;
+  /**
+   * Let `admin` and `user` fall back to the old built-in demo credentials (`admin@prima.com` /
+   * `admin1234`, `bob@bob.com` / `bob1234`) when neither env nor config sets them. Off by default.
+   */
+  legacyCredentialDefaults?: boolean;
+  /**
+   * Let login steps reuse tokens across scenarios through the worker's token cache, keyed by
+   * credential profile, username and API base URL. Unset, every login step logs in; cleanup caches
+   * its admin token either way. Set `file` (or `AUTH_TOKEN_CACHE_FILE`) to share tokens across workers and runs.
+   *
+   * @example
+   * ```typescript
+   * tokenCache: { file: '.auth/tokens.json', skewSeconds: 60 },
+   * ```
+   */
+  tokenCache?: TokenCacheOptions;
+  /**
+   * Reuse browser sessions: each profile logs in once per worker, its `storageState` is saved and
+   * `@ui` scenarios start from it. Tag a scenario `@fresh-session` to start logged out and run the
+   * real login flow. A scenario that logs out drops the saved session, so the next one logs in again.
+   *
+   * @example
+   * ```typescript
+   * uiSessions: { role: 'user', landingPath: '/dashboard' },
+   * ```
+   */
+  uiSessions?: UiSessionOptions;
+  /**
+   * How UI login steps sign in: login page, a locator per field, submit action and a success
+   * condition. `next` handles username → next → password forms; `steps` describes anything else,
+   * such as clicking through to an SSO provider.
+   *
+   * @example
+   * ```typescript
+   * uiLogin: {
+   *   path: '/signin',
+   *   username: { method: 'label', text: 'Email' },
+   *   next: { button: 'Next' },
+   *   password: { method: 'test ID', text: 'password-input' },
+   *   submit: { press: 'Enter' },
+   *   success: { url: '/dashboard' },
+   * },
+   * ```
+   */
+  uiLogin?: UiLoginFlow;
 };
 
 export function createBddTest(options: CreateBddTestOptions = {}) {
   const {
-    createApi = ({ apiRequest }) => new PlaywrightApiAdapter(apiRequest),
+    createApi = ({ apiRequest, contract, retry, testInfo, traffic, latencySamples, apiBaseUrl }) =>
+      new PlaywrightApiAdapter(apiRequest, { contract, baseUrl: apiBaseUrl, retry, testInfo, traffic, latencySamples }),
     createUi = ({ page }) => new PlaywrightUiAdapter(page),
-    createAuth = ({ api, ui }) => new UniversalAuthAdapter({ api, ui }),
+    createAuth = ({ api, ui, credentials, tokenCache, apiBaseUrl, uiLoginFlow }) =>
+      new UniversalAuthAdapter({ api, ui, credentials, tokenCache, apiBaseUrl, uiLoginFlow }),
     createCleanup = () => new DefaultCleanupAdapter(),
+    createGraphql = ({ apiRequest }) => new PlaywrightGraphqlAdapter(apiRequest),
+    createWs = ({ testInfo }) => new NodeWsAdapter({ baseUrl: process.env.WS_BASE_URL || resolveApiBaseUrl(testInfo).replace(/^http/, 'ws') }),
+    createSse = ({ testInfo }) => new FetchSseAdapter({ baseUrl: resolveApiBaseUrl(testInfo) }),
     createTui,
     worldFactory = initWorld,
   } = options;
+  const contract = options.openapi ? new OpenApiContract(options.openapi) : undefined;
+  const trafficMode = resolveTrafficMode(options.apiTraffic?.mode);
+  const cassetteMode = resolveCassetteMode(options.apiCassettes?.mode);
+  // Login steps reuse tokens only when the suite opts in; cleanup always keeps its admin token for the worker
+  const authTokenCache = (cache: TokenCache) => (options.tokenCache || process.env.AUTH_TOKEN_CACHE_FILE ? cache : undefined);
+  const credentials = new CredentialRegistry(options.credentials, process.env, { legacyDefaults: options.legacyCredentialDefaults });
 
   return base.extend<{
     world: World;
     api: ApiPort;
+    pagination: ApiPaginator;
     ui: UiPort;
     auth: AuthPort;
     cleanup: CleanupPort;
+    graphql: GraphqlPort;
+    ws: WsPort;
+    sse: SsePort;
     tui: TuiPort | undefined;
     apiRequest: APIRequestContext;
+    stubs: StubServerPort;
+    uiSessionRole: string | undefined;
+  }, {
+    stubServer: HttpStubServer;
+    tokenCache: TokenCache;
+    uiSessionStore: UiSessionStore;
   }>({
-    world: async ({ apiRequest }, use) => {
+    world: async ({ apiRequest, tokenCache, uiSessionRole }, use, testInfo) => {
       const w = worldFactory();
+      w.uiSessionRole = uiSessionRole;
       await use(w);
 
-      if (w.skipCleanup) return;
+      for (const fn of [...(w.teardown || [])].reverse()) {
+        try {
+          await fn();
+        } catch (err) {
+          console.warn('world teardown error', err);
+        }
+      }
+
+      if (w.skipCleanup || cassetteMode === 'replay') return;
       if (!w.cleanup.length) return;
 
       for (const item of [...w.cleanup].reverse()) {
-        const adminHeaders = await getAdminHeaders(apiRequest);
-        const headers = { ...adminHeaders, ...(item.headers || {}) };
+        const admin = await getAdminHeaders(apiRequest, credentials, tokenCache, resolveApiBaseUrl(testInfo));
+        const headers = { ...admin.headers, ...(item.headers || {}) };
         try {
           const resp = await apiRequest.fetch(item.path, {
             method: item.method,
@@ -110,7 +334,7 @@ export function createBddTest(options: CreateBddTestOptions = {}) {
           });
           const status = resp.status();
           if (status === 401 || status === 403) {
-            cachedAdminToken = undefined;
+            if (admin.key) tokenCache.delete(admin.key);
             console.warn(`cleanup auth expired (${status}) for ${item.method} ${item.path}`);
             continue;
           }
@@ -124,17 +348,7 @@ export function createBddTest(options: CreateBddTestOptions = {}) {
     },
 
     apiRequest: async ({ playwright }, use, testInfo) => {
-      const projectName = String(testInfo.project.name || '');
-      const baseURLFromProject = testInfo.project.use?.baseURL as string | undefined;
-
-      const baseURL =
-        process.env.API_BASE_URL ||
-        process.env.CONTROL_TOWER_BASE_URL ||
-        (projectName.includes('api') ? baseURLFromProject : undefined) ||
-        (process.env.CONTROL_TOWER_PORT ? `http://localhost:${process.env.CONTROL_TOWER_PORT}` : undefined) ||
-        'http://localhost:4000';
-
-      const ctx = await playwright.request.newContext({ baseURL });
+      const ctx = await playwright.request.newContext({ baseURL: resolveApiBaseUrl(testInfo) });
       try {
         await use(ctx);
       } finally {
@@ -142,22 +356,196 @@ export function createBddTest(options: CreateBddTestOptions = {}) {
       }
     },
 
-    api: async ({ apiRequest }, use) => {
-      await use(createApi({ apiRequest } as CreateContext));
+    api: async ({ apiRequest }, use, testInfo) => {
+      const traffic = trafficMode === 'off' ? undefined : new ApiTrafficRecorder(options.apiTraffic);
+      const latencySamples: LatencySample[] | undefined = options.apiLatencyBudgets ? [] : undefined;
+      const apiBaseUrl = resolveApiBaseUrl(testInfo);
+      let api = createApi({ apiRequest, testInfo, contract, retry: options.apiRetry, traffic, latencySamples, apiBaseUrl } as CreateContext);
+      if (cassetteMode !== 'off') {
+        api = new CassetteApiAdapter(api, cassettePath(testInfo.titlePath, options.apiCassettes?.dir), cassetteMode, options.apiCassettes);
+      }
+      await use(api);
+
+      if (traffic && (trafficMode === 'always' || testInfo.status !== testInfo.expectedStatus)) {
+        await traffic.attach(testInfo);
+      }
+      if (latencySamples?.length) {
+        await testInfo.attach(LATENCY_ATTACHMENT, {
+          body: JSON.stringify({ budgets: options.apiLatencyBudgets, samples: latencySamples }),
+          contentType: 'application/json',
+        });
+      }
+    },
+
+    pagination: async ({ api }, use) => {
+      await use(new ApiPaginator(api, options.apiPagination));
     },
 
     cleanup: async ({ apiRequest }, use) => {
       await use(createCleanup({ apiRequest } as CreateContext));
     },
 
+    graphql: async ({ apiRequest }, use, testInfo) => {
+      await use(createGraphql({ apiRequest, testInfo } as CreateContext));
+    },
+
+    /**
+     * Local stub server, one per worker. `STUB_SERVER_PORT` pins the port (plus the worker's
+     * parallel index); otherwise a free port is used.
+     */
+    stubServer: [
+      async ({}, use, workerInfo) => {
+        const basePort = process.env.STUB_SERVER_PORT ? Number(process.env.STUB_SERVER_PORT) : undefined;
+        const server = new HttpStubServer({
+          host: process.env.STUB_SERVER_HOST,
+          port: basePort === undefined ? undefined : basePort + workerInfo.parallelIndex,
+        });
+        await server.start();
+        try {
+          await use(server);
+        } finally {
+          await server.stop();
+        }
+      },
+      { scope: 'worker' },
+    ],
+
+    stubs: async ({ stubServer }, use) => {
+      await use(stubServer);
+      stubServer.reset();
+    },
+
+    ws: async ({}, use, testInfo) => {
+      const ws = createWs({ testInfo } as CreateContext);
+      await use(ws);
+      await ws.close();
+    },
+
+    sse: async ({}, use, testInfo) => {
+      await use(createSse({ testInfo } as CreateContext));
+    },
+
     ui: async ({ page }, use) => {
       await use(createUi({ page } as CreateContext));
     },
 
-    auth: async ({ api, ui }, use) => {
-      await use(createAuth({ api, ui } as CreateContext & { api: ApiPort; ui: UiPort }));
+    auth: async ({ api, ui, page, tokenCache, uiSessionStore, $tags }, use, testInfo) => {
+      const ctx = { api, ui, credentials, tokenCache: authTokenCache(tokenCache), apiBaseUrl: resolveApiBaseUrl(testInfo), uiLoginFlow: options.uiLogin };
+      let auth = createAuth(ctx as CreateContext & { api: ApiPort; ui: UiPort });
+      if (options.uiSessions && !$tags.includes('@fresh-session')) {
+        auth = new UiSessionAuthAdapter(auth, { sessions: uiSessionStore, page, ui, landingPath: options.uiSessions.landingPath });
+      }
+      await use(auth);
     },
 
+    /**
+     * Profile whose saved session the scenario's browser starts with: `@session:<profile>`, else
+     * `uiSessions.role`. Unset for `@fresh-session` scenarios and ones not tagged `@ui`.
+     */
+    uiSessionRole: async ({ $tags }, use) => {
+      if (!options.uiSessions || !$tags.includes('@ui') || $tags.includes('@fresh-session')) return use(undefined);
+      const tagged = $tags.find((tag) => tag.startsWith('@session:'))?.slice('@session:'.length);
+      await use(tagged || options.uiSessions.role);
+    },
+
+    // Installed only with `uiSessions`, so other browser tests don't build these fixtures' dependencies
+    ...(options.uiSessions && {
+      storageState: async (
+        {
+          storageState,
+          uiSessionRole,
+          uiSessionStore,
+          browser,
+          playwright,
+          tokenCache,
+          contextOptions,
+          baseURL,
+          ignoreHTTPSErrors,
+          httpCredentials,
+          extraHTTPHeaders,
+          proxy,
+          clientCertificates,
+          locale,
+          timezoneId,
+          viewport,
+          userAgent,
+        },
+        use,
+        testInfo,
+      ) => {
+        if (!uiSessionRole) return use(storageState);
+
+        // The one-time login must see the same context the scenarios get, e.g. HTTP auth or self-signed certificates
+        const transport = { ignoreHTTPSErrors, httpCredentials, extraHTTPHeaders, proxy, clientCertificates };
+        const login = async (): Promise<StorageState> => {
+          if (options.uiSessions?.via === 'api') {
+            const { username, password, loginPath } = credentials.get(uiSessionRole);
+            if (username === undefined || password === undefined) {
+              throw new Error(`Session login for '${uiSessionRole}' via API needs a profile with username/password`);
+            }
+            const apiBaseUrl = resolveApiBaseUrl(testInfo);
+            const request = await playwright.request.newContext({ ...transport, baseURL: apiBaseUrl });
+            try {
+              const resp = await request.post(loginPath, { form: { username, password } });
+              if (!resp.ok()) throw new Error(`Session login for '${uiSessionRole}' failed: POST ${apiBaseUrl}${loginPath} returned ${resp.status()}`);
+              const state = await request.storageState();
+              if (!state.cookies.length && !state.origins.length) {
+                throw new Error(
+                  `Session login for '${uiSessionRole}' via API set no cookies, so a browser cannot reuse it (token-only APIs need uiSessions.via 'ui')`,
+                );
+              }
+              return state;
+            } finally {
+              await request.dispose();
+            }
+          }
+          const context = await browser.newContext({ ...contextOptions, ...transport, locale, timezoneId, viewport, userAgent, baseURL });
+          // A plain API adapter of its own: the scenario's `api` may replay cassettes or record traffic
+          const apiBaseUrl = resolveApiBaseUrl(testInfo);
+          const apiRequest = await playwright.request.newContext({ ...transport, baseURL: apiBaseUrl });
+          try {
+            const page = await context.newPage();
+            const ui = createUi({ page } as CreateContext);
+            const api = createApi({ apiRequest, testInfo, apiBaseUrl } as CreateContext);
+            const ctx = { api, ui, credentials, tokenCache: authTokenCache(tokenCache), apiBaseUrl, uiLoginFlow: options.uiLogin };
+            await loginAs(createAuth(ctx as CreateContext & { api: ApiPort; ui: UiPort }), 'ui', worldFactory(), uiSessionRole);
+            await page.waitForLoadState('networkidle');
+            return await context.storageState();
+          } finally {
+            await context.close();
+            await apiRequest.dispose();
+          }
+        };
+        await use((await uiSessionStore.ensure(uiSessionRole, login)) as BrowserContextOptions['storageState']);
+      },
+
+      /** Drops the saved session after a scenario that logged out of it. */
+      context: async ({ context, world, uiSessionStore }, use) => {
+        await use(context);
+        if (!world.uiSessionRole) return;
+        try {
+          await uiSessionStore.invalidateIfLoggedOut(world.uiSessionRole, context);
+        } catch (err) {
+          // A closed context leaves the session in place; a stale one only costs a fresh login
+          console.warn('ui session check failed', err);
+        }
+      },
+    }),
+
+    uiSessionStore: [
+      async ({}, use) => {
+        await use(new UiSessionStore());
+      },
+      { scope: 'worker' },
+    ],
+
+    tokenCache: [
+      async ({}, use) => {
+        await use(new TokenCache(options.tokenCache));
+      },
+      { scope: 'worker' },
+    ],
+
     /**
      * TUI fixture for terminal user interface testing.
      * Automatically stops the TUI application after the test completes.
@@ -1,15 +1,39 @@
-export { createBddTest, type CreateBddTestOptions, type TuiFactory, baseTest } from './fixtures';
+export { createBddTest, type CreateBddTestOptions, type UiSessionOptions, type TuiFactory, baseTest } from './fixtures';
 export * from './world';
 export * from './utils';
+export * from './json-schema';
+export * from './json-match';
+export * from './snapshot';
+export * from './latency';
+export * from './binary';
+export * from './credentials';
+export * from './openapi';
 export * from './ports/api.port';
 export * from './ports/ui.port';
 export * from './ports/auth.port';
 export * from './ports/cleanup.port';
 export * from './ports/tui.port';
+export * from './ports/graphql.port';
+export * from './ports/stub.port';
+export * from './ports/ws.port';
+export * from './ports/sse.port';
 export * from './adapters/api/playwright-api.adapter';
+export * from './adapters/api/retry';
+export * from './adapters/api/traffic';
+export * from './adapters/api/cassette-api.adapter';
+export * from './adapters/api/pagination';
 export * from './adapters/ui/playwright-ui.adapter';
 export * from './adapters/auth/universal-auth.adapter';
+export * from './adapters/auth/oauth2-auth.adapter';
+export * from './adapters/auth/token-cache';
+export * from './adapters/auth/ui-session-store';
+export * from './adapters/auth/ui-session-auth.adapter';
+export * from './adapters/auth/ui-login-flow';
 export * from './adapters/cleanup/default-cleanup.adapter';
 export * from './adapters/tui/tui-tester.adapter';
+export * from './adapters/graphql/playwright-graphql.adapter';
+export * from './adapters/stub/http-stub.adapter';
+export * from './adapters/ws/node-ws.adapter';
+export * from './adapters/sse/fetch-sse.adapter';
 export * from './steps';
 export * from './config';
@@ -0,0 +1,155 @@
+import { interpolate, tryParseJson } from './utils';
+
+export type JsonMismatch = {
+  /** Path in `selectPath` syntax ('' is the document root) */
+  path: string;
+  expected: string;
+  actual: string;
+};
+
+export type JsonMatchResult = {
+  mismatches: JsonMismatch[];
+  /** Values captured by `{{store:name}}` placeholders */
+  captures: Record<string, unknown>;
+};
+
+const UUID = /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}([Tt ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?([Zz]|[+-]\d{2}:?\d{2})?)?$/;
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PLACEHOLDER = /^\{\{(.+)\}\}$/;
+const ABSENT = '{{absent}}';
+
+function describe(value: unknown): string {
+  if (value === undefined) return 'undefined';
+  const json = JSON.stringify(value);
+  return json.length > 80 ? `${json.slice(0, 77)}...` : json;
+}
+
+function joinKey(path: string, key: string): string {
+  return /^[a-zA-Z0-9_$-]+$/.test(key) ? (path ? `${path}.${key}` : key) : `${path}['${key}']`;
+}
+
+function compareNumber(actual: number, op: string, bound: number): boolean {
+  switch (op) {
+    case '>':
+      return actual > bound;
+    case '>=':
+      return actual >= bound;
+    case '<':
+      return actual < bound;
+    case '<=':
+      return actual <= bound;
+    default:
+      return actual === bound;
+  }
+}
+
+/** Returns an error description when `actual` fails the placeholder, undefined when it passes. */
+function checkPlaceholder(spec: string, actual: unknown, captures: Record<string, unknown>): string | undefined {
+  if (spec.startsWith('store:')) {
+    if (actual === undefined) return 'a value to store';
+    captures[spec.slice('store:'.length).trim()] = actual;
+    return undefined;
+  }
+  if (spec.startsWith('regex:')) {
+    const pattern = spec.slice('regex:'.length);
+    return typeof actual === 'string' && new RegExp(pattern).test(actual) ? undefined : `string matching /${pattern}/`;
+  }
+
+  const numeric = /^(number|integer)\s*(>=|<=|>|<|==)?\s*(-?\d+(\.\d+)?)?$/.exec(spec);
+  if (numeric) {
+    const [, kind, op, bound] = numeric;
+    const ok =
+      typeof actual === 'number' &&
+      (kind === 'number' || Number.isInteger(actual)) &&
+      (bound === undefined || compareNumber(actual, op ?? '==', Number(bound)));
+    return ok ? undefined : `${kind}${op ?? ''}${bound ?? ''}`;
+  }
+
+  switch (spec) {
+    case 'any':
+      return actual === undefined ? 'any value' : undefined;
+    case 'string':
+      return typeof actual === 'string' ? undefined : 'a string';
+    case 'boolean':
+      return typeof actual === 'boolean' ? undefined : 'a boolean';
+    case 'uuid':
+      return typeof actual === 'string' && UUID.test(actual) ? undefined : 'a UUID';
+    case 'iso-date':
+      return typeof actual === 'string' && ISO_DATE.test(actual) && !Number.isNaN(Date.parse(actual)) ? undefined : 'an ISO-8601 date';
+    case 'email':
+      return typeof actual === 'string' && EMAIL.test(actual) ? undefined : 'an email address';
+    default:
+      throw new Error(`Unknown JSON matcher '{{${spec}}}'`);
+  }
+}
+
+function match(actual: unknown, expected: unknown, path: string, result: JsonMatchResult): void {
+  const fail = (exp: string): void => {
+    result.mismatches.push({ path, expected: exp, actual: describe(actual) });
+  };
+
+  if (typeof expected === 'string') {
+    const placeholder = PLACEHOLDER.exec(expected);
+    if (placeholder) {
+      const error = checkPlaceholder(placeholder[1].trim(), actual, result.captures);
+      if (error) fail(error);
+      return;
+    }
+  }
+
+  if (Array.isArray(expected)) {
+    if (!Array.isArray(actual)) return fail(`array of ${expected.length}`);
+    if (actual.length !== expected.length) return fail(`array of ${expected.length}`);
+    expected.forEach((item, i) => match(actual[i], item, `${path}[${i}]`, result));
+    return;
+  }
+
+  if (expected !== null && typeof expected === 'object') {
+    if (actual === null || typeof actual !== 'object' || Array.isArray(actual)) return fail('object');
+    const obj = actual as Record<string, unknown>;
+    for (const [key, value] of Object.entries(expected)) {
+      const childPath = joinKey(path, key);
+      if (value === ABSENT) {
+        if (key in obj) result.mismatches.push({ path: childPath, expected: 'absent', actual: describe(obj[key]) });
+        continue;
+      }
+      if (!(key in obj)) {
+        result.mismatches.push({ path: childPath, expected: describe(value), actual: 'missing' });
+        continue;
+      }
+      match(obj[key], value, childPath, result);
+    }
+    return;
+  }
+
+  if (actual !== expected) fail(describe(expected));
+}
+
+/** Parses a JSON template doc string, interpolating `{var}` references but leaving `{{matcher}}` placeholders untouched. */
+export function parseJsonTemplate(docString: string, vars: Record<string, string>): unknown {
+  const text = (docString ?? '')
+    .split(/(\{\{.*?\}\}(?!\}))/)
+    .map((part, i) => (i % 2 ? part : interpolate(part, vars)))
+    .join('');
+  const template = tryParseJson(text);
+  if (template === undefined) throw new Error('JSON template doc string is not valid JSON');
+  return template;
+}
+
+/**
+ * Compare `actual` against a template by subset: objects may carry extra keys, arrays are
+ * compared position by position. String values of the form `{{matcher}}` match by rule:
+ * `any`, `string`, `boolean`, `uuid`, `iso-date`, `email`, `regex:<pattern>`,
+ * `number`/`integer` with an optional comparison (`number>0`), `absent` (key must be missing)
+ * and `store:<var>` (matches anything present and captures it).
+ */
+export function matchJson(actual: unknown, template: unknown): JsonMatchResult {
+  const result: JsonMatchResult = { mismatches: [], captures: {} };
+  match(actual, template, '', result);
+  return result;
+}
+
+export function formatJsonMismatches(mismatches: JsonMismatch[]): string {
+  return mismatches.map((m) => `  ${m.path || '$'}: expected ${m.expected}, got ${m.actual}`).join('\n');
+}
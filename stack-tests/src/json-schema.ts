@@ -0,0 +1,241 @@
+import { readFileSync } from 'fs';
+import { extname, isAbsolute, resolve } from 'path';
+import { isDeepStrictEqual } from 'util';
+
+export type JsonSchema = boolean | { [keyword: string]: any };
+
+export type JsonSchemaError = {
+  /** JSON pointer to the failing value ('' is the document root) */
+  pointer: string;
+  keyword: string;
+  expected: string;
+  actual: string;
+};
+
+export type ValidateJsonSchemaOptions = {
+  /** Document used to resolve local `$ref`s (defaults to the schema itself) */
+  root?: JsonSchema;
+};
+
+const FORMATS: Record<string, RegExp> = {
+  'date-time': /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:?\d{2})$/,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  time: /^\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:?\d{2})?$/,
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uuid: /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/,
+  uri: /^[a-zA-Z][a-zA-Z0-9+.-]*:[^\s]*$/,
+  ipv4: /^(\d{1,3}\.){3}\d{1,3}$/,
+};
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  if (type === 'number') return actual === 'number' || actual === 'integer';
+  return actual === type;
+}
+
+function describe(value: unknown): string {
+  if (value === undefined) return 'undefined';
+  const json = JSON.stringify(value);
+  return json.length > 80 ? `${json.slice(0, 77)}...` : json;
+}
+
+function escapePointer(token: string | number): string {
+  return String(token).replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/** Own keys only, so `constructor` or `toString` never count as present or declared. */
+function hasOwn(obj: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(obj, key);
+}
+
+/** Key order is irrelevant to JSON equality, so compare structurally rather than by serialization. */
+function deepEqual(a: unknown, b: unknown): boolean {
+  return isDeepStrictEqual(a, b);
+}
+
+/** `value / divisor` within floating-point error of an integer, so 0.3 is a multiple of 0.1. */
+function isMultipleOf(value: number, divisor: number): boolean {
+  const quotient = value / divisor;
+  return Math.abs(quotient - Math.round(quotient)) < 1e-9 * Math.max(1, Math.abs(quotient));
+}
+
+function resolveRef(root: JsonSchema, ref: string): JsonSchema {
+  if (!ref.startsWith('#')) throw new Error(`Unsupported $ref '${ref}': only local references are resolved`);
+  let cur: any = root;
+  for (const raw of ref.slice(1).split('/').filter(Boolean)) {
+    const token = decodeURIComponent(raw).replace(/~1/g, '/').replace(/~0/g, '~');
+    cur = cur?.[token];
+    if (cur === undefined) throw new Error(`Unresolvable $ref '${ref}'`);
+  }
+  return cur as JsonSchema;
+}
+
+function check(value: unknown, schema: JsonSchema, pointer: string, root: JsonSchema, errors: JsonSchemaError[]): void {
+  const fail = (keyword: string, expected: string, actual: string = describe(value)): void => {
+    errors.push({ pointer, keyword, expected, actual });
+  };
+
+  if (schema === true) return;
+  if (schema === false) {
+    fail('false', 'no value');
+    return;
+  }
+
+  if (typeof schema.$ref === 'string') {
+    check(value, resolveRef(root, schema.$ref), pointer, root, errors);
+    return;
+  }
+
+  // OpenAPI 3.0 `nullable: true`
+  if (value === null && schema.nullable === true) return;
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((t) => matchesType(value, t))) {
+      fail('type', types.join(' | '), typeOf(value));
+      return;
+    }
+  }
+
+  if (schema.const !== undefined && !deepEqual(value, schema.const)) fail('const', describe(schema.const));
+  if (Array.isArray(schema.enum) && !schema.enum.some((e: unknown) => deepEqual(value, e))) {
+    fail('enum', `one of ${schema.enum.map(describe).join(', ')}`);
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) fail('minLength', `length >= ${schema.minLength}`, `length ${value.length}`);
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) fail('maxLength', `length <= ${schema.maxLength}`, `length ${value.length}`);
+    if (typeof schema.pattern === 'string' && !new RegExp(schema.pattern, 'u').test(value)) fail('pattern', `match /${schema.pattern}/`);
+    const format = typeof schema.format === 'string' ? FORMATS[schema.format] : undefined;
+    if (format && !format.test(value)) fail('format', `format '${schema.format}'`);
+  }
+
+  if (typeof value === 'number') {
+    const exMin = schema.exclusiveMinimum;
+    const exMax = schema.exclusiveMaximum;
+    if (typeof schema.minimum === 'number') {
+      if (exMin === true ? value <= schema.minimum : value < schema.minimum) fail('minimum', `${exMin === true ? '>' : '>='} ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === 'number') {
+      if (exMax === true ? value >= schema.maximum : value > schema.maximum) fail('maximum', `${exMax === true ? '<' : '<='} ${schema.maximum}`);
+    }
+    if (typeof exMin === 'number' && value <= exMin) fail('exclusiveMinimum', `> ${exMin}`);
+    if (typeof exMax === 'number' && value >= exMax) fail('exclusiveMaximum', `< ${exMax}`);
+    if (typeof schema.multipleOf === 'number' && !isMultipleOf(value, schema.multipleOf)) fail('multipleOf', `multiple of ${schema.multipleOf}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) fail('minItems', `>= ${schema.minItems} items`, `${value.length} items`);
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) fail('maxItems', `<= ${schema.maxItems} items`, `${value.length} items`);
+    if (schema.uniqueItems === true) {
+      value.forEach((item, i) => {
+        if (value.slice(0, i).some((earlier) => deepEqual(earlier, item))) {
+          errors.push({ pointer: `${pointer}/${i}`, keyword: 'uniqueItems', expected: 'unique item', actual: describe(item) });
+        }
+      });
+    }
+    if (Array.isArray(schema.items)) {
+      schema.items.forEach((itemSchema: JsonSchema, i: number) => {
+        if (i < value.length) check(value[i], itemSchema, `${pointer}/${i}`, root, errors);
+      });
+    } else if (schema.items !== undefined) {
+      value.forEach((item, i) => check(item, schema.items, `${pointer}/${i}`, root, errors));
+    }
+  }
+
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    const obj = value as Record<string, unknown>;
+    const keys = Object.keys(obj);
+    if (typeof schema.minProperties === 'number' && keys.length < schema.minProperties) fail('minProperties', `>= ${schema.minProperties} properties`, `${keys.length} properties`);
+    if (typeof schema.maxProperties === 'number' && keys.length > schema.maxProperties) fail('maxProperties', `<= ${schema.maxProperties} properties`, `${keys.length} properties`);
+
+    for (const req of Array.isArray(schema.required) ? schema.required : []) {
+      if (!hasOwn(obj, req)) {
+        errors.push({ pointer: `${pointer}/${escapePointer(req)}`, keyword: 'required', expected: 'property to be present', actual: 'missing' });
+      }
+    }
+
+    const properties: Record<string, JsonSchema> = schema.properties ?? {};
+    const patterns = Object.entries((schema.patternProperties ?? {}) as Record<string, JsonSchema>).map(
+      ([p, s]) => [new RegExp(p, 'u'), s] as const,
+    );
+    for (const key of keys) {
+      const childPointer = `${pointer}/${escapePointer(key)}`;
+      let known = false;
+      if (hasOwn(properties, key)) {
+        known = true;
+        check(obj[key], properties[key], childPointer, root, errors);
+      }
+      for (const [re, s] of patterns) {
+        if (!re.test(key)) continue;
+        known = true;
+        check(obj[key], s, childPointer, root, errors);
+      }
+      if (known || schema.additionalProperties === undefined || schema.additionalProperties === true) continue;
+      if (schema.additionalProperties === false) {
+        errors.push({ pointer: childPointer, keyword: 'additionalProperties', expected: 'no additional property', actual: describe(obj[key]) });
+      } else {
+        check(obj[key], schema.additionalProperties, childPointer, root, errors);
+      }
+    }
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    for (const sub of schema.allOf) check(value, sub, pointer, root, errors);
+  }
+  if (Array.isArray(schema.anyOf)) {
+    const passing = schema.anyOf.filter((sub: JsonSchema) => validateJsonSchema(value, sub, { root }).length === 0);
+    if (!passing.length) fail('anyOf', `match any of ${schema.anyOf.length} schemas`);
+  }
+  if (Array.isArray(schema.oneOf)) {
+    const passing = schema.oneOf.filter((sub: JsonSchema) => validateJsonSchema(value, sub, { root }).length === 0);
+    if (passing.length !== 1) fail('oneOf', `match exactly one of ${schema.oneOf.length} schemas`, `matched ${passing.length}`);
+  }
+  if (schema.not !== undefined && validateJsonSchema(value, schema.not, { root }).length === 0) {
+    fail('not', 'not to match schema');
+  }
+}
+
+/**
+ * Validate a value against a JSON Schema (draft-07 keywords plus OpenAPI 3.0 `nullable`).
+ * Returns every failure rather than stopping at the first one.
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, options: ValidateJsonSchemaOptions = {}): JsonSchemaError[] {
+  const errors: JsonSchemaError[] = [];
+  check(value, schema, '', options.root ?? schema, errors);
+  return errors;
+}
+
+export function formatSchemaErrors(errors: JsonSchemaError[]): string {
+  return errors.map((e) => `  ${e.pointer || '/'} (${e.keyword}): expected ${e.expected}, got ${e.actual}`).join('\n');
+}
+
+export function resolveSchemasDir(): string {
+  return resolve(process.cwd(), process.env.API_SCHEMAS_DIR || 'schemas');
+}
+
+/**
+ * Load a schema file by name from the schemas directory (`API_SCHEMAS_DIR`, default `./schemas`).
+ * The `.json` extension is optional.
+ */
+export function loadJsonSchema(name: string, dir: string = resolveSchemasDir()): JsonSchema {
+  const file = isAbsolute(name) ? name : resolve(dir, extname(name) ? name : `${name}.json`);
+  let raw: string;
+  try {
+    raw = readFileSync(file, 'utf8');
+  } catch {
+    throw new Error(`JSON schema '${name}' not found at ${file}`);
+  }
+  try {
+    return JSON.parse(raw) as JsonSchema;
+  } catch (err) {
+    throw new Error(`JSON schema '${name}' is not valid JSON: ${(err as Error).message}`);
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Latency budgets: `pattern → p95 ms`. A pattern is an optional method and a path, where `*` or
+ * `:param` matches one segment and `**` any number of segments, e.g. `GET /users/:id` or `/reports/**`.
+ * The first matching pattern wins.
+ */
+export type LatencyBudgets = Record<string, number>;
+
+export type LatencySample = {
+  method: string;
+  path: string;
+  status: number;
+  durationMs: number;
+};
+
+export type LatencyBudgetResult = {
+  pattern: string;
+  budgetMs: number;
+  count: number;
+  p50: number;
+  p95: number;
+  max: number;
+  exceeded: boolean;
+};
+
+/** Attachment name under which tests report their samples to `ApiLatencyReporter` */
+export const LATENCY_ATTACHMENT = 'api latency samples';
+
+export type LatencyAttachment = {
+  budgets: LatencyBudgets;
+  samples: LatencySample[];
+};
+
+function patternRegex(pattern: string): { method?: string; re: RegExp } {
+  const [first, second] = pattern.trim().split(/\s+/, 2);
+  const method = second === undefined ? undefined : first.toUpperCase();
+  const path = second ?? first;
+  const body = path
+    .replace(/\/+$/, '')
+    .split('/')
+    .map((seg) => {
+      if (seg === '**') return '(?:/.*)?';
+      if (seg === '*' || seg.startsWith(':')) return '/[^/]+';
+      return seg ? `/${seg.replace(/[.+?^${}()|[\]\\]/g, '\\$&')}` : '';
+    })
+    .join('');
+  return { method, re: new RegExp(`^${body}/?$`) };
+}
+
+/** First budget pattern matching the request, ignoring the query string. */
+export function matchLatencyBudget(budgets: LatencyBudgets, method: string, path: string): string | undefined {
+  const bare = path.split('?', 1)[0].replace(/^[a-z]+:\/\/[^/]+/i, '') || '/';
+  return Object.keys(budgets).find((pattern) => {
+    const { method: m, re } = patternRegex(pattern);
+    return (!m || m === method.toUpperCase()) && re.test(bare);
+  });
+}
+
+/** Nearest-rank percentile; `p` in 0..100. */
+export function percentile(values: number[], p: number): number {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1))];
+}
+
+export function summarizeLatency(samples: LatencySample[], budgets: LatencyBudgets): LatencyBudgetResult[] {
+  const byPattern = new Map<string, number[]>();
+  for (const sample of samples) {
+    const pattern = matchLatencyBudget(budgets, sample.method, sample.path);
+    if (pattern) byPattern.set(pattern, [...(byPattern.get(pattern) ?? []), sample.durationMs]);
+  }
+  return Object.entries(budgets)
+    .filter(([pattern]) => byPattern.has(pattern))
+    .map(([pattern, budgetMs]) => {
+      const durations = byPattern.get(pattern)!;
+      const p95 = percentile(durations, 95);
+      return {
+        pattern,
+        budgetMs,
+        count: durations.length,
+        p50: percentile(durations, 50),
+        p95,
+        max: Math.max(...durations),
+        exceeded: p95 > budgetMs,
+      };
+    });
+}
+
+export function formatLatencySummary(results: LatencyBudgetResult[]): string {
+  const rows = results.map(
+    (r) => `| \`${r.pattern}\` | ${r.count} | ${r.p50} | ${r.p95} | ${r.budgetMs} | ${r.max} | ${r.exceeded ? 'OVER' : 'ok'} |`,
+  );
+  return ['| Pattern | Requests | p50 ms | p95 ms | Budget ms | Max ms | Status |', '|---|---|---|---|---|---|---|', ...rows].join('\n');
+}
@@ -0,0 +1,205 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { formatSchemaErrors, validateJsonSchema, type JsonSchema, type JsonSchemaError } from './json-schema';
+
+export type OpenApiDocument = {
+  openapi: string;
+  servers?: Array<{ url: string }>;
+  paths: Record<string, Record<string, any>>;
+  components?: Record<string, any>;
+  [key: string]: unknown;
+};
+
+/** `strict` fails the request that breaks the contract; `report` only attaches the violations. */
+export type ContractMode = 'strict' | 'report';
+
+export type ContractViolationCategory = 'request-body' | 'response-body' | 'undocumented-operation' | 'undocumented-status';
+
+export type ContractViolation = {
+  category: ContractViolationCategory;
+  method: string;
+  path: string;
+  /** Matched spec path template, when an operation was found */
+  operation?: string;
+  status?: number;
+  message: string;
+  errors?: JsonSchemaError[];
+};
+
+export type ContractExchange = {
+  method: string;
+  path: string;
+  requestBody?: unknown;
+  requestContentType?: string;
+  status: number;
+  responseBody?: unknown;
+  responseContentType?: string;
+  /** API base URL; an absolute `path` on another origin (e.g. an identity provider) is not checked */
+  baseUrl?: string;
+};
+
+export type OpenApiContractOptions = {
+  /** OpenAPI 3 document, or a path to a JSON file containing one */
+  spec: OpenApiDocument | string;
+  mode?: ContractMode;
+  /** Prefix stripped from request paths before matching (defaults to the path of `servers[0].url`) */
+  basePath?: string;
+  /** Paths left unchecked, e.g. login endpoints the spec does not describe; strings match whole segments after `basePath` */
+  ignorePaths?: (string | RegExp)[];
+};
+
+export class ContractViolationError extends Error {
+  constructor(readonly violations: ContractViolation[]) {
+    super(`OpenAPI contract violated:\n${formatContractViolations(violations)}`);
+    this.name = 'ContractViolationError';
+  }
+}
+
+type CompiledOperation = {
+  template: string;
+  regex: RegExp;
+  params: number;
+  item: Record<string, any>;
+};
+
+function loadSpec(spec: OpenApiDocument | string): OpenApiDocument {
+  if (typeof spec !== 'string') return spec;
+  const file = resolve(process.cwd(), spec);
+  if (/\.ya?ml$/i.test(file)) throw new Error(`OpenAPI spec ${file}: YAML is not supported, convert it to JSON`);
+  return JSON.parse(readFileSync(file, 'utf8')) as OpenApiDocument;
+}
+
+function basePathFromServers(doc: OpenApiDocument): string {
+  const url = doc.servers?.[0]?.url;
+  if (!url) return '';
+  const pathname = /^[a-z][a-z0-9+.-]*:\/\//i.test(url) ? new URL(url).pathname : url;
+  return pathname.replace(/\/+$/, '');
+}
+
+function isCrossOrigin(path: string, baseUrl?: string): boolean {
+  if (!baseUrl || !/^[a-z][a-z0-9+.-]*:\/\//i.test(path)) return false;
+  return new URL(path).origin !== new URL(baseUrl).origin;
+}
+
+function isJsonContentType(contentType: string): boolean {
+  return /^application\/(.+\+)?json/i.test(contentType);
+}
+
+function pickContentSchema(content: Record<string, any> | undefined, contentType?: string): JsonSchema | undefined {
+  if (!content) return undefined;
+  const mediaType = (contentType || '').split(';')[0].trim().toLowerCase();
+  if (mediaType && content[mediaType]?.schema) return content[mediaType].schema;
+  const jsonKey = Object.keys(content).find(isJsonContentType);
+  return jsonKey ? content[jsonKey]?.schema : undefined;
+}
+
+export function formatContractViolations(violations: ContractViolation[]): string {
+  return violations
+    .map((v) => {
+      const head = `[${v.category}] ${v.method} ${v.path}${v.status !== undefined ? ` -> ${v.status}` : ''}: ${v.message}`;
+      return v.errors?.length ? `${head}\n${formatSchemaErrors(v.errors)}` : head;
+    })
+    .join('\n');
+}
+
+/**
+ * Matches HTTP exchanges to operations of an OpenAPI 3 document and validates
+ * request bodies, status codes and response bodies against it.
+ */
+export class OpenApiContract {
+  readonly mode: ContractMode;
+  private readonly doc: OpenApiDocument;
+  private readonly basePath: string;
+  private readonly ignorePaths: (string | RegExp)[];
+  private readonly operations: CompiledOperation[];
+
+  constructor(options: OpenApiContractOptions) {
+    this.doc = loadSpec(options.spec);
+    if (!this.doc || typeof this.doc.paths !== 'object') throw new Error('OpenAPI spec has no paths');
+    this.mode = options.mode ?? 'strict';
+    this.basePath = (options.basePath ?? basePathFromServers(this.doc)).replace(/\/+$/, '');
+    this.ignorePaths = options.ignorePaths ?? [];
+    this.operations = Object.entries(this.doc.paths)
+      .map(([template, item]) => {
+        const params = (template.match(/\{[^}]+\}/g) || []).length;
+        const pattern = template
+          .split(/\{[^}]+\}/)
+          .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+          .join('[^/]+');
+        return { template, regex: new RegExp(`^${pattern}/?$`), params, item };
+      })
+      // Literal segments win over templated ones (/users/me before /users/{id})
+      .sort((a, b) => a.params - b.params);
+  }
+
+  validate(exchange: ContractExchange): ContractViolation[] {
+    if (isCrossOrigin(exchange.path, exchange.baseUrl)) return [];
+    const method = exchange.method.toUpperCase();
+    const path = this.normalizePath(exchange.path);
+    if (this.isIgnored(path)) return [];
+    const base = { method, path: exchange.path, status: exchange.status };
+
+    const match = this.operations.find((op) => op.regex.test(path) && op.item[method.toLowerCase()]);
+    if (!match) {
+      const known = this.operations.some((op) => op.regex.test(path));
+      return [{ ...base, category: 'undocumented-operation', message: known ? `method ${method} is not documented for this path` : 'path is not documented' }];
+    }
+
+    const operation = this.deref(match.item[method.toLowerCase()]);
+    const violations: ContractViolation[] = [];
+    const withOp = { ...base, operation: `${method} ${match.template}` };
+
+    const requestBody = operation.requestBody ? this.deref(operation.requestBody) : undefined;
+    if (requestBody) {
+      if (exchange.requestBody === undefined) {
+        if (requestBody.required) violations.push({ ...withOp, category: 'request-body', message: 'request body is required' });
+      } else {
+        const schema = pickContentSchema(requestBody.content, exchange.requestContentType);
+        const errors = schema ? validateJsonSchema(exchange.requestBody, schema, { root: this.doc }) : [];
+        if (errors.length) violations.push({ ...withOp, category: 'request-body', message: 'request body does not match schema', errors });
+      }
+    }
+
+    const responses: Record<string, any> = operation.responses || {};
+    const statusKey = String(exchange.status);
+    const responseKey = [statusKey, `${statusKey[0]}XX`, `${statusKey[0]}xx`, 'default'].find((k) => responses[k] !== undefined);
+    if (!responseKey) {
+      violations.push({ ...withOp, category: 'undocumented-status', message: `status ${exchange.status} is not documented (documented: ${Object.keys(responses).join(', ') || 'none'})` });
+      return violations;
+    }
+
+    const response = this.deref(responses[responseKey]);
+    const schema = pickContentSchema(response.content, exchange.responseContentType);
+    if (schema && exchange.responseBody !== undefined) {
+      const errors = validateJsonSchema(exchange.responseBody, schema, { root: this.doc });
+      if (errors.length) violations.push({ ...withOp, category: 'response-body', message: 'response body does not match schema', errors });
+    }
+    return violations;
+  }
+
+  private isIgnored(path: string): boolean {
+    return this.ignorePaths.some((p) =>
+      typeof p === 'string' ? path === p.replace(/\/+$/, '') || path.startsWith(`${p.replace(/\/+$/, '')}/`) : p.test(path),
+    );
+  }
+
+  private normalizePath(rawPath: string): string {
+    let path = /^[a-z][a-z0-9+.-]*:\/\//i.test(rawPath) ? new URL(rawPath).pathname : rawPath.split(/[?#]/)[0];
+    if (!path.startsWith('/')) path = `/${path}`;
+    if (this.basePath && (path === this.basePath || path.startsWith(`${this.basePath}/`))) {
+      path = path.slice(this.basePath.length) || '/';
+    }
+    return path;
+  }
+
+  private deref(node: any): any {
+    let cur = node;
+    while (cur && typeof cur.$ref === 'string') {
+      cur = cur.$ref
+        .slice(2)
+        .split('/')
+        .reduce((acc: any, token: string) => acc?.[token.replace(/~1/g, '/').replace(/~0/g, '~')], this.doc);
+    }
+    return cur ?? {};
+  }
+}
@@ -3,15 +3,62 @@ import type { APIResponse } from '@playwright/test';
 export type ApiResult = {
   status: number;
   text: string;
+  /** Raw response body, for binary content such as PDFs, images and exports */
+  body?: Buffer;
   json?: unknown;
   headers: Record<string, string>;
   contentType?: string;
   response: APIResponse;
+  /** Every attempt made for this request, when the adapter retried it */
+  attempts?: ApiAttempt[];
+  /** Wall-clock time from sending the final attempt to reading the full body; earlier attempts and backoff are excluded */
+  durationMs?: number;
 };
 
-export type ApiMethod = 'GET' | 'POST' | 'PATCH' | 'PUT' | 'DELETE';
+export type ApiAttempt = {
+  attempt: number;
+  status?: number;
+  error?: string;
+  /** Time from sending the attempt to its response headers or error */
+  durationMs?: number;
+  /** Wait before the next attempt, if one followed */
+  delayMs?: number;
+};
+
+export type ApiMethod = 'GET' | 'POST' | 'PATCH' | 'PUT' | 'DELETE' | 'HEAD' | 'OPTIONS';
+
+/** Per-request overrides of the adapter's transport defaults */
+export type ApiRequestOptions = {
+  timeoutMs?: number;
+  /** 0 disables redirect following */
+  maxRedirects?: number;
+  /** Throw instead of returning a result when the status is not 2xx or 3xx */
+  failOnStatusCode?: boolean;
+};
+
+export type ApiFilePart = {
+  name: string;
+  mimeType: string;
+  buffer: Buffer;
+};
+
+export type ApiMultipartField = string | ApiFilePart;
 
 export interface ApiPort {
-  sendJson(method: ApiMethod, path: string, body?: unknown, headers?: Record<string, string>): Promise<ApiResult>;
-  sendForm(method: 'POST' | 'PUT' | 'PATCH', path: string, form: Record<string, string>, headers?: Record<string, string>): Promise<ApiResult>;
+  sendJson(method: ApiMethod, path: string, body?: unknown, headers?: Record<string, string>, options?: ApiRequestOptions): Promise<ApiResult>;
+  sendForm(
+    method: 'POST' | 'PUT' | 'PATCH',
+    path: string,
+    form: Record<string, string>,
+    headers?: Record<string, string>,
+    options?: ApiRequestOptions,
+  ): Promise<ApiResult>;
+  /** Optional so adapters written before multipart support keep compiling; the upload steps require it */
+  sendMultipart?(
+    method: 'POST' | 'PUT' | 'PATCH',
+    path: string,
+    fields: Record<string, ApiMultipartField>,
+    headers?: Record<string, string>,
+    options?: ApiRequestOptions,
+  ): Promise<ApiResult>;
 }
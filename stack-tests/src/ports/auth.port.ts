@@ -1,10 +1,17 @@
 import type { World } from '../world';
 
 export interface AuthPort {
+  /**
+   * Log in through the API with a named credential profile, e.g. `auditor`. Optional for adapters
+   * written before profiles existed; `loginAs` then falls back to the admin/user methods.
+   */
+  apiLoginAs?(world: World, profile: string): Promise<void>;
   apiLoginAsAdmin(world: World): Promise<void>;
   apiLoginAsUser(world: World): Promise<void>;
   apiSetBearer(world: World, token: string): void;
 
+  /** Log in through the UI with a named credential profile; optional like `apiLoginAs` */
+  uiLoginAs?(world: World, profile: string): Promise<void>;
   uiLoginAsAdmin(world: World): Promise<void>;
   uiLoginAsUser(world: World): Promise<void>;
 }
@@ -0,0 +1,23 @@
+import type { ApiResult } from './api.port';
+
+export type GraphqlRequest = {
+  query: string;
+  variables?: Record<string, unknown>;
+  operationName?: string;
+};
+
+export type GraphqlError = {
+  message: string;
+  path?: Array<string | number>;
+  locations?: Array<{ line: number; column: number }>;
+  extensions?: Record<string, unknown>;
+};
+
+export type GraphqlResult = ApiResult & {
+  data?: unknown;
+  errors?: GraphqlError[];
+};
+
+export interface GraphqlPort {
+  execute(request: GraphqlRequest, headers?: Record<string, string>): Promise<GraphqlResult>;
+}
@@ -0,0 +1,31 @@
+/** A dispatched Server-Sent Event */
+export type SseEvent = {
+  /** Event type; `message` when the stream sets none */
+  event: string;
+  data: string;
+  /** Parsed data, when it is JSON */
+  json?: unknown;
+  id?: string;
+  receivedAt: number;
+};
+
+export type SseEventPredicate = (event: SseEvent) => boolean;
+
+export interface SseSubscription {
+  /**
+   * Resolve with the first event matching `predicate` that has not been returned before,
+   * including events already received; rejects after `timeoutMs` or when the stream ends.
+   */
+  waitForEvent(predicate: SseEventPredicate, timeoutMs: number): Promise<SseEvent>;
+  /** The next `count` events not yet returned, in arrival order */
+  take(count: number, timeoutMs: number): Promise<SseEvent[]>;
+  /** Every event received so far */
+  events(): SseEvent[];
+  isOpen(): boolean;
+  close(): Promise<void>;
+}
+
+export interface SsePort {
+  /** Open a `text/event-stream` request; fails unless the response is 2xx with that content type */
+  subscribe(path: string, headers?: Record<string, string>): Promise<SseSubscription>;
+}
@@ -0,0 +1,26 @@
+export type StubResponse = {
+  status: number;
+  body?: string;
+  headers?: Record<string, string>;
+};
+
+export type StubRequest = {
+  method: string;
+  /** Path below the stub's base URL, without the query string */
+  path: string;
+  query: string;
+  headers: Record<string, string>;
+  body: string;
+  json?: unknown;
+};
+
+export interface StubServerPort {
+  /** Base URL of a named stub, e.g. `http://127.0.0.1:41233/payments` */
+  url(name: string): string;
+  /** Serve `response` for `method path`; a later registration for the same route wins */
+  respond(name: string, method: string, path: string, response: StubResponse): void;
+  /** Requests received by a stub, optionally filtered by method and path */
+  requests(name: string, method?: string, path?: string): StubRequest[];
+  /** Forget all routes and received requests */
+  reset(): void;
+}
@@ -0,0 +1,28 @@
+/** A received WebSocket frame */
+export type WsMessage = {
+  /** Frame payload as text */
+  data: string;
+  /** Parsed payload, when the frame is JSON */
+  json?: unknown;
+  receivedAt: number;
+};
+
+export type WsMessagePredicate = (message: WsMessage) => boolean;
+
+export interface WsPort {
+  /** Open a connection; relative paths are resolved against the adapter's base URL */
+  connect(url: string, headers?: Record<string, string>): Promise<void>;
+  /** Send a text frame; objects are serialized as JSON */
+  send(data: string | object): Promise<void>;
+  /**
+   * Resolve with the first message matching `predicate` that has not been returned before,
+   * including messages already buffered; rejects after `timeoutMs`.
+   */
+  waitForMessage(predicate: WsMessagePredicate, timeoutMs: number): Promise<WsMessage>;
+  /** Reject if a matching message is buffered or arrives within `timeoutMs` */
+  expectNoMessage(predicate: WsMessagePredicate, timeoutMs: number): Promise<void>;
+  /** Every message received on the current connection */
+  messages(): WsMessage[];
+  close(): Promise<void>;
+  isConnected(): boolean;
+}
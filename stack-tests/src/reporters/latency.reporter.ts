@@ -0,0 +1,70 @@
+import type { FullConfig, FullResult, Reporter, TestCase, TestResult } from '@playwright/test/reporter';
+import { mkdirSync, writeFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import {
+  formatLatencySummary,
+  LATENCY_ATTACHMENT,
+  summarizeLatency,
+  type LatencyAttachment,
+  type LatencyBudgets,
+  type LatencySample,
+} from '../latency';
+
+export type ApiLatencyReporterOptions = {
+  /** Markdown summary path; a `.json` sibling is written next to it. Defaults to `<outputDir>/api-latency.md` */
+  outputFile?: string;
+  /** Mark the run as failed when a pattern's p95 exceeds its budget */
+  failOnExceeded?: boolean;
+};
+
+/**
+ * Aggregates the latency samples attached by the `api` fixture (see the `apiLatencyBudgets`
+ * option) across the whole run and writes a p95-per-budget summary.
+ */
+export default class ApiLatencyReporter implements Reporter {
+  private budgets: LatencyBudgets = {};
+  /** By test id; a retried test keeps only its last attempt's samples */
+  private readonly samples = new Map<string, LatencySample[]>();
+  private outputFile = '';
+
+  constructor(private readonly options: ApiLatencyReporterOptions = {}) {}
+
+  onBegin(config: FullConfig): void {
+    const outputDir = config.projects[0]?.outputDir ?? resolve(process.cwd(), 'test-results');
+    this.outputFile = this.options.outputFile ? resolve(process.cwd(), this.options.outputFile) : resolve(outputDir, 'api-latency.md');
+  }
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    const collected: LatencySample[] = [];
+    for (const attachment of result.attachments) {
+      if (attachment.name !== LATENCY_ATTACHMENT || !attachment.body) continue;
+      const { budgets, samples } = JSON.parse(attachment.body.toString('utf8')) as LatencyAttachment;
+      this.budgets = { ...this.budgets, ...budgets };
+      collected.push(...samples);
+    }
+    this.samples.set(test.id, collected);
+  }
+
+  async onEnd(_result: FullResult): Promise<{ status?: FullResult['status'] } | undefined> {
+    const results = summarizeLatency([...this.samples.values()].flat(), this.budgets);
+    if (!results.length) return undefined;
+
+    const table = formatLatencySummary(results);
+    mkdirSync(dirname(this.outputFile), { recursive: true });
+    writeFileSync(this.outputFile, `# API latency budgets\n\n${table}\n`);
+    writeFileSync(this.outputFile.replace(/\.md$/, '') + '.json', `${JSON.stringify(results, null, 2)}\n`);
+
+    const exceeded = results.filter((r) => r.exceeded);
+    console.log(`\nAPI latency: ${results.length} budget(s), ${exceeded.length} over p95 (${this.outputFile})`);
+    for (const r of exceeded) console.log(`  ${r.pattern}: p95 ${r.p95} ms > ${r.budgetMs} ms (${r.count} requests)`);
+
+    return exceeded.length && this.options.failOnExceeded ? { status: 'failed' } : undefined;
+  }
+
+  /** The run summary is printed to stdout. */
+  printsToStdio(): boolean {
+    return true;
+  }
+}
+
+export { ApiLatencyReporter };
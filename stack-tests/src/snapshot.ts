@@ -0,0 +1,111 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { basename, dirname, join } from 'path';
+
+export type JsonDiffEntry = {
+  /** Path in `selectPath` syntax ('' is the document root) */
+  path: string;
+  kind: 'changed' | 'added' | 'removed';
+  expected?: unknown;
+  actual?: unknown;
+};
+
+export type SnapshotResult = {
+  pass: boolean;
+  /** True when the snapshot was (re)written instead of compared */
+  written: boolean;
+  /** True when no snapshot exists and writing a new one was not allowed */
+  missing: boolean;
+  snapshotPath: string;
+  diff: JsonDiffEntry[];
+};
+
+const DEFAULT_REDACT = ['id', 'uuid', 'createdAt', 'updatedAt', 'created_at', 'updated_at', 'timestamp', 'token', 'accessToken', 'access_token', 'refreshToken', 'refresh_token'];
+
+/** Keys redacted in API snapshots: `API_SNAPSHOT_REDACT` (comma-separated) or the defaults. */
+export function snapshotRedactKeys(extra: string[] = []): string[] {
+  const fromEnv = process.env.API_SNAPSHOT_REDACT?.split(',').map((s) => s.trim()).filter(Boolean);
+  return [...(fromEnv?.length ? fromEnv : DEFAULT_REDACT), ...extra];
+}
+
+/** Replace the value of every matching key (at any depth, case-insensitive) with `****`. */
+export function redactJson(value: unknown, keys: string[]): unknown {
+  const lower = new Set(keys.map((k) => k.toLowerCase()));
+  const walk = (v: unknown): unknown => {
+    if (Array.isArray(v)) return v.map(walk);
+    if (v === null || typeof v !== 'object') return v;
+    return Object.fromEntries(
+      Object.entries(v as Record<string, unknown>).map(([k, child]) => [k, lower.has(k.toLowerCase()) && child != null ? '****' : walk(child)]),
+    );
+  };
+  return walk(value);
+}
+
+function joinKey(path: string, key: string): string {
+  return /^[a-zA-Z0-9_$-]+$/.test(key) ? (path ? `${path}.${key}` : key) : `${path}['${key}']`;
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return v !== null && typeof v === 'object' && !Array.isArray(v);
+}
+
+export function diffJson(expected: unknown, actual: unknown, path = '', out: JsonDiffEntry[] = []): JsonDiffEntry[] {
+  if (Array.isArray(expected) && Array.isArray(actual)) {
+    const len = Math.max(expected.length, actual.length);
+    for (let i = 0; i < len; i++) {
+      const p = `${path}[${i}]`;
+      if (i >= actual.length) out.push({ path: p, kind: 'removed', expected: expected[i] });
+      else if (i >= expected.length) out.push({ path: p, kind: 'added', actual: actual[i] });
+      else diffJson(expected[i], actual[i], p, out);
+    }
+    return out;
+  }
+  if (isObject(expected) && isObject(actual)) {
+    for (const key of new Set([...Object.keys(expected), ...Object.keys(actual)])) {
+      const p = joinKey(path, key);
+      if (!(key in actual)) out.push({ path: p, kind: 'removed', expected: expected[key] });
+      else if (!(key in expected)) out.push({ path: p, kind: 'added', actual: actual[key] });
+      else diffJson(expected[key], actual[key], p, out);
+    }
+    return out;
+  }
+  if (JSON.stringify(expected) !== JSON.stringify(actual)) out.push({ path, kind: 'changed', expected, actual });
+  return out;
+}
+
+export function formatJsonDiff(diff: JsonDiffEntry[]): string {
+  return diff
+    .map((d) => {
+      const p = d.path || '$';
+      if (d.kind === 'added') return `  + ${p}: ${JSON.stringify(d.actual)}`;
+      if (d.kind === 'removed') return `  - ${p}: ${JSON.stringify(d.expected)}`;
+      return `  ~ ${p}: ${JSON.stringify(d.expected)} -> ${JSON.stringify(d.actual)}`;
+    })
+    .join('\n');
+}
+
+/** `<feature dir>/__snapshots__/<feature file>/<name>.json` */
+export function apiSnapshotPath(featureFile: string, name: string): string {
+  const safe = name.replace(/[^a-zA-Z0-9_.-]+/g, '-');
+  return join(dirname(featureFile), '__snapshots__', basename(featureFile), `${safe}.json`);
+}
+
+/**
+ * Compare `value` with the snapshot stored at `snapshotPath`. With `update` the snapshot is always
+ * rewritten; a missing snapshot is written only with `update` or `writeMissing`, otherwise it fails.
+ */
+export function matchJsonSnapshot(
+  value: unknown,
+  snapshotPath: string,
+  options: { update?: boolean; writeMissing?: boolean } = {},
+): SnapshotResult {
+  const exists = existsSync(snapshotPath);
+  if (options.update || (!exists && options.writeMissing)) {
+    mkdirSync(dirname(snapshotPath), { recursive: true });
+    writeFileSync(snapshotPath, `${JSON.stringify(value, null, 2)}\n`);
+    return { pass: true, written: true, missing: false, snapshotPath, diff: [] };
+  }
+  if (!exists) return { pass: false, written: false, missing: true, snapshotPath, diff: [] };
+  const expected = JSON.parse(readFileSync(snapshotPath, 'utf8'));
+  const diff = diffJson(expected, value);
+  return { pass: diff.length === 0, written: false, missing: false, snapshotPath, diff };
+}
@@ -1,6 +1,32 @@
 import { createBdd } from 'playwright-bdd';
 import { expect } from '@playwright/test';
-import { parseExpected, selectPath } from '../utils';
+import { parseExpected, selectPath, tryParseJson } from '../utils';
+import { formatSchemaErrors, loadJsonSchema, validateJsonSchema, type JsonSchema } from '../json-schema';
+import { formatJsonMismatches, matchJson, parseJsonTemplate } from '../json-match';
+import type { CleanupPort } from '../ports/cleanup.port';
+import type { World } from '../world';
+
+function assertMatchesSchema(world: World, schema: JsonSchema, label: string): void {
+  const errors = validateJsonSchema(world.lastJson, schema);
+  if (errors.length) {
+    throw new Error(`Response does not match schema ${label} (${errors.length} error(s)):\n${formatSchemaErrors(errors)}`);
+  }
+}
+
+function arrayAt(world: World, path: string): unknown[] {
+  const value = selectPath(world.lastJson, path);
+  if (!Array.isArray(value)) {
+    throw new Error(`Expected an array at '${path}' but got ${value === null ? 'null' : typeof value}. Body: ${world.lastText}`);
+  }
+  return value;
+}
+
+function storeCaptures(world: World, cleanup: CleanupPort, captures: Record<string, unknown>): void {
+  for (const [varName, value] of Object.entries(captures)) {
+    world.vars[varName] = String(value);
+    cleanup.registerFromVar(world, varName, value, world.lastJson);
+  }
+}
 
 export function registerApiAssertionSteps(test: any): void {
   const { Then } = createBdd(test as any) as any;
@@ -24,6 +50,64 @@ export function registerApiAssertionSteps(test: any): void {
     expect(actual).toEqual(expected);
   });
 
+  Then('the response should match schema {string}', { tags: '@api' }, async ({ world }: any, name: string) => {
+    assertMatchesSchema(world, loadJsonSchema(name), `'${name}'`);
+  });
+
+  Then('the response should match schema:', { tags: '@api' }, async ({ world }: any, docString: string) => {
+    const schema = tryParseJson(docString ?? '');
+    if (schema === undefined) throw new Error('Schema doc string is not valid JSON');
+    assertMatchesSchema(world, schema as JsonSchema, '(inline)');
+  });
+
+  Then('the array at {string} should have length {int}', { tags: '@api' }, async ({ world }: any, path: string, length: number) => {
+    expect(arrayAt(world, path), `Array at '${path}'`).toHaveLength(length);
+  });
+
+  Then(
+    'every item at {string} should have {string} equal {string}',
+    { tags: '@api' },
+    async ({ world }: any, path: string, field: string, expectedRaw: string) => {
+      const items = arrayAt(world, path);
+      if (!items.length) throw new Error(`No items at '${path}'`);
+      const expected = parseExpected(expectedRaw, world);
+      const failures = items
+        .map((item, i) => ({ i, actual: selectPath(item, field) }))
+        .filter(({ actual }) => JSON.stringify(actual) !== JSON.stringify(expected));
+      if (failures.length) {
+        const detail = failures.map(({ i, actual }) => `  [${i}] ${field} = ${JSON.stringify(actual)}`).join('\n');
+        throw new Error(`${failures.length} of ${items.length} item(s) at '${path}' have ${field} != ${JSON.stringify(expected)}:\n${detail}`);
+      }
+    },
+  );
+
+  Then(
+    'the array at {string} should contain an item matching:',
+    { tags: '@api' },
+    async ({ world, cleanup }: any, path: string, docString: string) => {
+      const template = parseJsonTemplate(docString, world.vars);
+      const items = arrayAt(world, path);
+      const matched = items.map((item) => matchJson(item, template)).find((r) => !r.mismatches.length);
+      if (!matched) {
+        throw new Error(`No item at '${path}' matches ${JSON.stringify(template)}. Items: ${JSON.stringify(items)}`);
+      }
+      storeCaptures(world, cleanup, matched.captures);
+    },
+  );
+
+  Then('the response should match JSON:', { tags: '@api' }, async ({ world, cleanup }: any, docString: string) => {
+    const { mismatches, captures } = matchJson(world.lastJson, parseJsonTemplate(docString, world.vars));
+    if (mismatches.length) {
+      throw new Error(`Response does not match JSON template (${mismatches.length} mismatch(es)):\n${formatJsonMismatches(mismatches)}`);
+    }
+    storeCaptures(world, cleanup, captures);
+  });
+
+  Then('the response time should be under {int} ms', { tags: '@api' }, async ({ world }: any, maxMs: number) => {
+    if (world.lastDurationMs === undefined) throw new Error('The API adapter did not record a duration for the last response');
+    expect(world.lastDurationMs, `Response took ${world.lastDurationMs} ms, budget ${maxMs} ms`).toBeLessThan(maxMs);
+  });
+
   Then('I store the value at {string} as {string}', { tags: '@api' }, async ({ world, cleanup }: any, path: string, varName: string) => {
     const val = selectPath(world.lastJson, path);
     world.vars[varName] = String(val);
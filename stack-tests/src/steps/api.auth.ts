@@ -1,4 +1,5 @@
 import { createBdd } from 'playwright-bdd';
+import { interpolate, loginAs } from '../utils';
 
 export function registerApiAuthSteps(test: any): void {
   const { Given } = createBdd(test as any) as any;
@@ -11,6 +12,11 @@ export function registerApiAuthSteps(test: any): void {
     await auth.apiLoginAsUser(world);
   });
 
+  /** Any credential profile, e.g. `I am authenticated as "tenant-admin" via API` */
+  Given('I am authenticated as {string} via API', { tags: '@api' }, async ({ auth, world }: any, profile: string) => {
+    await loginAs(auth, 'api', world, interpolate(profile, world.vars));
+  });
+
   Given('I set bearer token from variable {string}', { tags: '@api' }, async ({ auth, world }: any, varName: string) => {
     const token = world.vars[varName];
     if (!token) throw new Error(`No token found in variable '${varName}'`);
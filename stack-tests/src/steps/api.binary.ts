@@ -0,0 +1,94 @@
+import { createBdd } from 'playwright-bdd';
+import { expect, type TestInfo } from '@playwright/test';
+import { mkdirSync, writeFileSync } from 'fs';
+import { basename, dirname } from 'path';
+import type { World } from '../world';
+import { interpolate } from '../utils';
+import { detectFileType, FILE_TYPES, parseCsv, sha256 } from '../binary';
+
+function responseBody(world: World): Buffer {
+  if (world.lastBody) return world.lastBody;
+  if (world.lastText !== undefined) return Buffer.from(world.lastText);
+  throw new Error('No response body available; send a request first');
+}
+
+/** `filename` from Content-Disposition, if the server sent one. */
+function dispositionFilename(world: World): string | undefined {
+  const header = world.lastHeaders?.['content-disposition'] || '';
+  const encoded = /filename\*\s*=\s*[^']*''([^;]+)/i.exec(header);
+  if (encoded) return decodeURIComponent(encoded[1].trim());
+  const plain = /filename\s*=\s*"?([^";]+)"?/i.exec(header);
+  return plain?.[1].trim();
+}
+
+function csvRows(world: World): string[][] {
+  return parseCsv(responseBody(world).toString('utf8'));
+}
+
+function tableRows(dataTable: any, world: World): string[][] {
+  return (dataTable.raw() as string[][]).map((row) => row.map((cell) => interpolate(cell ?? '', world.vars)));
+}
+
+export function registerApiBinarySteps(test: any): void {
+  const { When, Then } = createBdd(test as any) as any;
+
+  Then('the response body size should be {int} bytes', { tags: '@api' }, async ({ world }: any, size: number) => {
+    expect(responseBody(world).length, 'Response body size in bytes').toBe(size);
+  });
+
+  Then('the response body size should be at least {int} bytes', { tags: '@api' }, async ({ world }: any, size: number) => {
+    expect(responseBody(world).length, 'Response body size in bytes').toBeGreaterThanOrEqual(size);
+  });
+
+  Then('the response body SHA-256 should be {string}', { tags: '@api' }, async ({ world }: any, expected: string) => {
+    expect(sha256(responseBody(world))).toBe(interpolate(expected, world.vars).toLowerCase());
+  });
+
+  /** Checks the magic number, not just the Content-Type header. */
+  Then('the response body should be a {word} file', { tags: '@api' }, async ({ world }: any, type: string) => {
+    const expected = type.toLowerCase() === 'jpg' ? 'jpeg' : type.toLowerCase();
+    if (!FILE_TYPES.includes(expected)) {
+      throw new Error(`Unknown file type '${type}' (known: ${FILE_TYPES.join(', ')})`);
+    }
+    const body = responseBody(world);
+    const actual = detectFileType(body);
+    expect(actual, `Expected a ${expected} file (content type ${world.lastContentType || 'none'}), first bytes: ${body.subarray(0, 8).toString('hex')}`).toBe(
+      expected,
+    );
+  });
+
+  /**
+   * Writes the body to the test's output directory and stores the file path in the variable.
+   * The file name comes from Content-Disposition, or the variable name otherwise.
+   */
+  When('I save the response body as {string}', { tags: '@api' }, async ({ world, $testInfo }: any, varName: string) => {
+    const testInfo: TestInfo = $testInfo;
+    const file = testInfo.outputPath('downloads', basename(dispositionFilename(world) || varName));
+    mkdirSync(dirname(file), { recursive: true });
+    writeFileSync(file, responseBody(world));
+    world.vars[varName] = file;
+  });
+
+  /** The table's rows, header included, must equal the CSV's rows exactly. */
+  Then('the response CSV should equal:', { tags: '@api' }, async ({ world }: any, dataTable: any) => {
+    expect(csvRows(world)).toEqual(tableRows(dataTable, world));
+  });
+
+  /** The table's first row names columns; every other row must appear in the CSV, compared on those columns. */
+  Then('the response CSV should contain rows:', { tags: '@api' }, async ({ world }: any, dataTable: any) => {
+    const [header, ...records] = csvRows(world);
+    const [columns, ...expectedRows] = tableRows(dataTable, world);
+    const indexes = columns.map((column) => {
+      const index = (header || []).indexOf(column);
+      if (index < 0) throw new Error(`CSV has no column '${column}'. Columns: ${(header || []).join(', ')}`);
+      return index;
+    });
+
+    const missing = expectedRows.filter((expected) => !records.some((record) => indexes.every((idx, i) => record[idx] === expected[i])));
+    if (missing.length) {
+      throw new Error(
+        `CSV is missing ${missing.length} row(s):\n${missing.map((r) => `  ${r.join(', ')}`).join('\n')}\nCSV has ${records.length} data row(s)`,
+      );
+    }
+  });
+}
@@ -0,0 +1,81 @@
+import { createBdd } from 'playwright-bdd';
+import { expect } from '@playwright/test';
+import type { GraphqlError, GraphqlPort } from '../ports/graphql.port';
+import type { World } from '../world';
+import { applyApiResult, parseExpected, requestHeaders, selectPath } from '../utils';
+
+function graphqlErrors(world: World): GraphqlError[] {
+  const errors = (world.lastJson as any)?.errors;
+  return Array.isArray(errors) ? errors : [];
+}
+
+function formatErrors(errors: GraphqlError[]): string {
+  return errors.map((e) => `  - ${e.message}${e.path ? ` (at ${e.path.join('.')})` : ''}`).join('\n');
+}
+
+export function registerApiGraphqlSteps(test: any): void {
+  const { Given, When, Then } = createBdd(test as any) as any;
+
+  /**
+   * The query text is sent as-is (no `{var}` interpolation, GraphQL uses braces);
+   * pass dynamic values through `I set GraphQL variables:`.
+   */
+  async function execute(args: { graphql: GraphqlPort; world: World }, query: string): Promise<void> {
+    const { graphql, world } = args;
+    const variables = world.graphqlVariables;
+    world.graphqlVariables = undefined;
+
+    const result = await graphql.execute({ query, variables }, await requestHeaders(world));
+    applyApiResult(world, result);
+
+    if (result.errors?.length && !world.expectGraphqlErrors) {
+      throw new Error(`GraphQL operation returned ${result.errors.length} error(s) (status ${result.status}):\n${formatErrors(result.errors)}`);
+    }
+  }
+
+  Given('I set GraphQL variables:', { tags: '@api' }, async ({ world }: any, dataTable: any) => {
+    const variables: Record<string, unknown> = { ...(world.graphqlVariables || {}) };
+    for (const [name, value] of dataTable.raw() as string[][]) {
+      variables[name] = parseExpected(value ?? '', world);
+    }
+    world.graphqlVariables = variables;
+  });
+
+  Given('I expect GraphQL errors', { tags: '@api' }, async ({ world }: any) => {
+    world.expectGraphqlErrors = true;
+  });
+
+  When('I send the GraphQL query:', { tags: '@api' }, async ({ graphql, world }: any, docString: string) => {
+    await execute({ graphql, world }, docString ?? '');
+  });
+
+  When('I send the GraphQL mutation:', { tags: '@api' }, async ({ graphql, world }: any, docString: string) => {
+    await execute({ graphql, world }, docString ?? '');
+  });
+
+  Then('the GraphQL response should have no errors', { tags: '@api' }, async ({ world }: any) => {
+    const errors = graphqlErrors(world);
+    expect(errors, `Unexpected GraphQL errors:\n${formatErrors(errors)}`).toHaveLength(0);
+  });
+
+  Then('the GraphQL response should have an error with message {string}', { tags: '@api' }, async ({ world }: any, message: string) => {
+    const errors = graphqlErrors(world);
+    const expected = String(parseExpected(message, world));
+    expect(
+      errors.some((e) => String(e.message).includes(expected)),
+      `No GraphQL error containing '${expected}'. Errors:\n${formatErrors(errors) || '  (none)'}`,
+    ).toBe(true);
+  });
+
+  Then('the GraphQL data at {string} should equal {string}', { tags: '@api' }, async ({ world }: any, path: string, expectedRaw: string) => {
+    const actual = selectPath((world.lastJson as any)?.data, path);
+    const expected = parseExpected(expectedRaw, world);
+    expect(actual).toEqual(expected);
+  });
+
+  Then('I store the GraphQL data at {string} as {string}', { tags: '@api' }, async ({ world, cleanup }: any, path: string, varName: string) => {
+    const val = selectPath((world.lastJson as any)?.data, path);
+    world.vars[varName] = String(val);
+    cleanup.registerFromVar(world, varName, val, (world.lastJson as any)?.data);
+  });
+}
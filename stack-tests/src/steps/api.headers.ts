@@ -0,0 +1,102 @@
+import { createBdd } from 'playwright-bdd';
+import { expect } from '@playwright/test';
+import type { World } from '../world';
+import { interpolate, responseCookies, type SetCookie } from '../utils';
+
+function headerValue(world: World, name: string): string | undefined {
+  const key = name.toLowerCase();
+  const entry = Object.entries(world.lastHeaders || {}).find(([k]) => k.toLowerCase() === key);
+  return entry?.[1];
+}
+
+function requireHeader(world: World, name: string): string {
+  const value = headerValue(world, name);
+  if (value === undefined) {
+    throw new Error(`Response has no header '${name}'. Headers: ${Object.keys(world.lastHeaders || {}).join(', ') || '(none)'}`);
+  }
+  return value;
+}
+
+function requireCookie(world: World, name: string): SetCookie {
+  const cookies = responseCookies(world);
+  const cookie = cookies.find((c) => c.name === name);
+  if (!cookie) {
+    throw new Error(`Response does not set cookie '${name}'. Set-Cookie names: ${cookies.map((c) => c.name).join(', ') || '(none)'}`);
+  }
+  return cookie;
+}
+
+export function registerApiHeaderSteps(test: any): void {
+  const { Then } = createBdd(test as any) as any;
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // Header Steps
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  Then('the response header {string} should equal {string}', { tags: '@api' }, async ({ world }: any, name: string, expected: string) => {
+    expect(requireHeader(world, name), `Header '${name}'`).toBe(interpolate(expected, world.vars));
+  });
+
+  Then('the response header {string} should contain {string}', { tags: '@api' }, async ({ world }: any, name: string, expected: string) => {
+    expect(requireHeader(world, name), `Header '${name}'`).toContain(interpolate(expected, world.vars));
+  });
+
+  Then('the response header {string} should match {string}', { tags: '@api' }, async ({ world }: any, name: string, pattern: string) => {
+    expect(requireHeader(world, name), `Header '${name}'`).toMatch(new RegExp(interpolate(pattern, world.vars)));
+  });
+
+  Then('the response should not have header {string}', { tags: '@api' }, async ({ world }: any, name: string) => {
+    expect(headerValue(world, name), `Header '${name}' should be absent`).toBeUndefined();
+  });
+
+  Then('I store the response header {string} as {string}', { tags: '@api' }, async ({ world }: any, name: string, varName: string) => {
+    world.vars[varName] = requireHeader(world, name);
+  });
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // Cookie Steps
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  Then('the response should set cookie {string}', { tags: '@api' }, async ({ world }: any, name: string) => {
+    requireCookie(world, name);
+  });
+
+  Then('the response should not set cookie {string}', { tags: '@api' }, async ({ world }: any, name: string) => {
+    expect(responseCookies(world).map((c) => c.name)).not.toContain(name);
+  });
+
+  Then('the cookie {string} should be HttpOnly', { tags: '@api' }, async ({ world }: any, name: string) => {
+    expect(requireCookie(world, name).httpOnly, `Cookie '${name}' HttpOnly`).toBe(true);
+  });
+
+  Then('the cookie {string} should be Secure', { tags: '@api' }, async ({ world }: any, name: string) => {
+    expect(requireCookie(world, name).secure, `Cookie '${name}' Secure`).toBe(true);
+  });
+
+  Then('the cookie {string} should have SameSite {string}', { tags: '@api' }, async ({ world }: any, name: string, expected: string) => {
+    expect(requireCookie(world, name).sameSite?.toLowerCase(), `Cookie '${name}' SameSite`).toBe(expected.toLowerCase());
+  });
+
+  Then('the cookie {string} should have attribute {string} equal {string}', { tags: '@api' }, async ({ world }: any, name: string, attr: string, expected: string) => {
+    expect(requireCookie(world, name).attributes[attr.toLowerCase()], `Cookie '${name}' ${attr}`).toBe(interpolate(expected, world.vars));
+  });
+
+  Then('the cookie {string} should be a session cookie', { tags: '@api' }, async ({ world }: any, name: string) => {
+    expect(requireCookie(world, name).expiresAt, `Cookie '${name}' should have no Expires/Max-Age`).toBeUndefined();
+  });
+
+  Then('the cookie {string} should expire within {int} seconds', { tags: '@api' }, async ({ world }: any, name: string, seconds: number) => {
+    const { expiresAt } = requireCookie(world, name);
+    if (expiresAt === undefined) throw new Error(`Cookie '${name}' is a session cookie`);
+    expect(expiresAt, `Cookie '${name}' expiry`).toBeLessThanOrEqual(Date.now() + seconds * 1000);
+  });
+
+  Then('the cookie {string} should be expired', { tags: '@api' }, async ({ world }: any, name: string) => {
+    const { expiresAt } = requireCookie(world, name);
+    expect(expiresAt !== undefined && expiresAt <= Date.now(), `Cookie '${name}' should be expired`).toBe(true);
+  });
+
+  Then('I store the cookie {string} as {string}', { tags: '@api' }, async ({ world }: any, name: string, varName: string) => {
+    world.vars[varName] = requireCookie(world, name).value;
+  });
+}
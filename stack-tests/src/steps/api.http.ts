@@ -1,26 +1,125 @@
 import { createBdd } from 'playwright-bdd';
-import type { ApiMethod, ApiPort } from '../ports/api.port';
+import { readFileSync } from 'fs';
+import { basename, extname, resolve } from 'path';
+import type { ApiFilePart, ApiMethod, ApiMultipartField, ApiPort, ApiRequestOptions } from '../ports/api.port';
 import type { World } from '../world';
-import { interpolate, tryParseJson } from '../utils';
+import { applyApiResult, interpolate, parseExpected, requestHeaders, setPath, tryParseJson } from '../utils';
+
+const MIME_TYPES: Record<string, string> = {
+  '.json': 'application/json',
+  '.txt': 'text/plain',
+  '.csv': 'text/csv',
+  '.xml': 'application/xml',
+  '.pdf': 'application/pdf',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.svg': 'image/svg+xml',
+  '.zip': 'application/zip',
+};
+
+function resolveFixturesDir(): string {
+  return resolve(process.cwd(), process.env.API_FIXTURES_DIR || 'fixtures');
+}
+
+function loadFixtureFile(relPath: string): ApiFilePart {
+  const file = resolve(resolveFixturesDir(), relPath);
+  let buffer: Buffer;
+  try {
+    buffer = readFileSync(file);
+  } catch {
+    throw new Error(`Fixture file '${relPath}' not found at ${file}`);
+  }
+  return {
+    name: basename(file),
+    mimeType: MIME_TYPES[extname(file).toLowerCase()] || 'application/octet-stream',
+    buffer,
+  };
+}
+
+/** Rows are `| field | value |`; a value of `@path` uploads that file from the fixtures directory. */
+function multipartFromTable(dataTable: any, world: World): Record<string, ApiMultipartField> {
+  const fields: Record<string, ApiMultipartField> = {};
+  for (const [rawName, rawValue] of dataTable.raw() as string[][]) {
+    const name = interpolate(rawName, world.vars);
+    const value = interpolate(rawValue ?? '', world.vars);
+    fields[name] = value.startsWith('@') ? loadFixtureFile(value.slice(1)) : value;
+  }
+  return fields;
+}
+
+/** Append `| key | value |` rows to the path's query string; repeated keys are kept. */
+function withQuery(pathTemplate: string, dataTable: any, world: World): string {
+  const path = interpolate(pathTemplate, world.vars);
+  const [base, existing = ''] = path.split('?', 2);
+  const params = new URLSearchParams(existing);
+  for (const [key, value] of dataTable.raw() as string[][]) {
+    params.append(interpolate(key, world.vars), interpolate(value ?? '', world.vars));
+  }
+  const query = params.toString();
+  return query ? `${base}?${query}` : base;
+}
+
+/** Build a JSON body from `| dotted.key | value |` rows, e.g. `address.city` or `tags[0]`. */
+function bodyFromFields(dataTable: any, world: World): Record<string, unknown> {
+  const body: Record<string, unknown> = {};
+  for (const [key, value] of dataTable.raw() as string[][]) {
+    setPath(body, interpolate(key, world.vars), parseExpected(value ?? '', world));
+  }
+  return body;
+}
+
+const METHODS: ApiMethod[] = ['GET', 'POST', 'PATCH', 'PUT', 'DELETE', 'HEAD', 'OPTIONS'];
+
+function parseMethod(word: string): ApiMethod {
+  const method = word.toUpperCase() as ApiMethod;
+  if (!METHODS.includes(method)) throw new Error(`Unsupported HTTP method '${word}' (supported: ${METHODS.join(', ')})`);
+  return method;
+}
+
+function parseJsonDocString(docString: string, world: World): unknown {
+  const interpolated = interpolate(docString ?? '', world.vars);
+  return (tryParseJson(interpolated) ?? interpolated) as unknown;
+}
+
+/** Overrides set by `the next request ...` steps; they apply to one request only. */
+function takeRequestOptions(world: World): ApiRequestOptions | undefined {
+  const options = world.nextRequestOptions;
+  world.nextRequestOptions = undefined;
+  return options;
+}
+
+function setRequestOption(world: World, options: ApiRequestOptions): void {
+  world.nextRequestOptions = { ...(world.nextRequestOptions || {}), ...options };
+}
+
+export async function send(
+  args: { api: ApiPort; world: World },
+  method: ApiMethod,
+  pathTemplate: string,
+  body?: unknown,
+): Promise<void> {
+  const { api, world } = args;
+  const path = interpolate(pathTemplate, world.vars);
+  const result = await api.sendJson(method, path, body, await requestHeaders(world), takeRequestOptions(world));
+  applyApiResult(world, result);
+}
 
 export function registerApiHttpSteps(test: any): void {
-  const { When } = createBdd(test as any) as any;
+  const { Given, When } = createBdd(test as any) as any;
 
-  async function send(
+  async function sendMultipart(
     args: { api: ApiPort; world: World },
-    method: ApiMethod,
+    method: 'POST' | 'PUT' | 'PATCH',
     pathTemplate: string,
-    body?: unknown,
+    dataTable: any,
   ): Promise<void> {
     const { api, world } = args;
+    if (!api.sendMultipart) throw new Error('The API adapter does not implement sendMultipart, which multipart upload steps require');
     const path = interpolate(pathTemplate, world.vars);
-    const result = await api.sendJson(method, path, body, world.headers);
-    world.lastStatus = result.status;
-    world.lastText = result.text;
-    world.lastJson = result.json;
-    world.lastHeaders = result.headers;
-    world.lastContentType = result.contentType;
-    world.lastResponse = result.response;
+    const result = await api.sendMultipart(method, path, multipartFromTable(dataTable, world), await requestHeaders(world), takeRequestOptions(world));
+    applyApiResult(world, result);
   }
 
   When('I GET {string}', { tags: '@api' }, async ({ api, world }: any, path: string) => {
@@ -32,20 +131,70 @@ export function registerApiHttpSteps(test: any): void {
   });
 
   When('I POST {string} with JSON body:', { tags: '@api' }, async ({ api, world }: any, path: string, docString: string) => {
-    const interpolated = interpolate(docString ?? '', world.vars);
-    const parsed = (tryParseJson(interpolated) ?? interpolated) as unknown;
-    await send({ api, world }, 'POST', path, parsed);
+    await send({ api, world }, 'POST', path, parseJsonDocString(docString, world));
   });
 
   When('I PATCH {string} with JSON body:', { tags: '@api' }, async ({ api, world }: any, path: string, docString: string) => {
-    const interpolated = interpolate(docString ?? '', world.vars);
-    const parsed = (tryParseJson(interpolated) ?? interpolated) as unknown;
-    await send({ api, world }, 'PATCH', path, parsed);
+    await send({ api, world }, 'PATCH', path, parseJsonDocString(docString, world));
   });
 
   When('I PUT {string} with JSON body:', { tags: '@api' }, async ({ api, world }: any, path: string, docString: string) => {
-    const interpolated = interpolate(docString ?? '', world.vars);
-    const parsed = (tryParseJson(interpolated) ?? interpolated) as unknown;
-    await send({ api, world }, 'PUT', path, parsed);
+    await send({ api, world }, 'PUT', path, parseJsonDocString(docString, world));
+  });
+
+  /** e.g. a soft delete that takes a reason */
+  When('I DELETE {string} with JSON body:', { tags: '@api' }, async ({ api, world }: any, path: string, docString: string) => {
+    await send({ api, world }, 'DELETE', path, parseJsonDocString(docString, world));
+  });
+
+  /** Any supported method, including HEAD and OPTIONS (e.g. a CORS preflight). */
+  When('I send {word} {string}', { tags: '@api' }, async ({ api, world }: any, method: string, path: string) => {
+    await send({ api, world }, parseMethod(method), path);
+  });
+
+  When('I send {word} {string} with JSON body:', { tags: '@api' }, async ({ api, world }: any, method: string, path: string, docString: string) => {
+    await send({ api, world }, parseMethod(method), path, parseJsonDocString(docString, world));
+  });
+
+  Given('the next request times out after {int} ms', { tags: '@api' }, async ({ world }: any, ms: number) => {
+    setRequestOption(world, { timeoutMs: ms });
+  });
+
+  /** The 3xx response itself becomes the last response, so `Location` can be asserted. */
+  Given('the next request does not follow redirects', { tags: '@api' }, async ({ world }: any) => {
+    setRequestOption(world, { maxRedirects: 0 });
+  });
+
+  Given('the next request follows at most {int} redirects', { tags: '@api' }, async ({ world }: any, max: number) => {
+    setRequestOption(world, { maxRedirects: max });
+  });
+
+  /** The request step itself fails on a 4xx or 5xx status, instead of a later status assertion. */
+  Given('the next request fails on an error status', { tags: '@api' }, async ({ world }: any) => {
+    setRequestOption(world, { failOnStatusCode: true });
+  });
+
+  When('I GET {string} with query:', { tags: '@api' }, async ({ api, world }: any, path: string, dataTable: any) => {
+    await send({ api, world }, 'GET', withQuery(path, dataTable, world));
+  });
+
+  When('I POST {string} with fields:', { tags: '@api' }, async ({ api, world }: any, path: string, dataTable: any) => {
+    await send({ api, world }, 'POST', path, bodyFromFields(dataTable, world));
+  });
+
+  When('I PATCH {string} with fields:', { tags: '@api' }, async ({ api, world }: any, path: string, dataTable: any) => {
+    await send({ api, world }, 'PATCH', path, bodyFromFields(dataTable, world));
+  });
+
+  When('I PUT {string} with fields:', { tags: '@api' }, async ({ api, world }: any, path: string, dataTable: any) => {
+    await send({ api, world }, 'PUT', path, bodyFromFields(dataTable, world));
+  });
+
+  When('I POST {string} with multipart:', { tags: '@api' }, async ({ api, world }: any, path: string, dataTable: any) => {
+    await sendMultipart({ api, world }, 'POST', path, dataTable);
+  });
+
+  When('I PUT {string} with multipart:', { tags: '@api' }, async ({ api, world }: any, path: string, dataTable: any) => {
+    await sendMultipart({ api, world }, 'PUT', path, dataTable);
   });
 }
@@ -0,0 +1,31 @@
+import { createBdd } from 'playwright-bdd';
+import type { ApiPaginator } from '../adapters/api/pagination';
+import type { World } from '../world';
+import { applyApiResult, interpolate, requestHeaders } from '../utils';
+
+async function collectPages(world: World, pagination: ApiPaginator, pathTemplate: string, itemsPath: string, strategy?: string) {
+  const path = interpolate(pathTemplate, world.vars);
+  const { items, last } = await pagination.collect(path, interpolate(itemsPath, world.vars), await requestHeaders(world), strategy);
+  applyApiResult(world, last);
+  // Assertions and snapshots then see the merged list rather than the last page
+  world.lastJson = items;
+  world.lastText = JSON.stringify(items);
+  world.lastBody = Buffer.from(world.lastText);
+}
+
+export function registerApiPaginationSteps(test: any): void {
+  const { When } = createBdd(test as any) as any;
+
+  /** Follows the configured pagination strategy; `lastJson` becomes the items of every page. */
+  When('I GET all pages of {string} collecting {string}', { tags: '@api' }, async ({ world, pagination }: any, path: string, itemsPath: string) => {
+    await collectPages(world, pagination, path, itemsPath);
+  });
+
+  When(
+    'I GET all pages of {string} collecting {string} using {word} pagination',
+    { tags: '@api' },
+    async ({ world, pagination }: any, path: string, itemsPath: string, strategy: string) => {
+      await collectPages(world, pagination, path, itemsPath, strategy);
+    },
+  );
+}
@@ -0,0 +1,96 @@
+import { createBdd } from 'playwright-bdd';
+import { isDeepStrictEqual } from 'util';
+import type { ApiPort } from '../ports/api.port';
+import type { World } from '../world';
+import { envNumber, parseExpected, selectPath } from '../utils';
+import { send } from './api.http';
+
+type PollSettings = {
+  intervalMs: number;
+  backoff: number;
+  maxIntervalMs: number;
+};
+
+function pollSettings(world: World): PollSettings {
+  const intervalMs = world.polling?.intervalMs ?? envNumber('API_POLL_INTERVAL_MS', 500, 0);
+  const backoff = world.polling?.backoff ?? envNumber('API_POLL_BACKOFF', 1, 1);
+  const maxIntervalMs = envNumber('API_POLL_MAX_INTERVAL_MS', 5000, 0);
+  return { intervalMs, backoff: backoff >= 1 ? backoff : 1, maxIntervalMs };
+}
+
+function truncate(text: string | undefined, max = 500): string {
+  if (!text) return '(empty)';
+  return text.length > max ? `${text.slice(0, max)}...` : text;
+}
+
+/**
+ * GET `pathTemplate` until `condition` holds or `seconds` elapse. The last response stays in
+ * the world either way, so assertions after a successful poll see the matching response.
+ */
+async function pollUntil(
+  args: { api: ApiPort; world: World },
+  pathTemplate: string,
+  seconds: number,
+  description: string,
+  condition: (world: World) => boolean,
+): Promise<void> {
+  const { world } = args;
+  const settings = pollSettings(world);
+  const deadline = Date.now() + seconds * 1000;
+  let delay = settings.intervalMs;
+  let attempts = 0;
+  let lastError: string | undefined;
+
+  for (;;) {
+    attempts++;
+    await send(args, 'GET', pathTemplate);
+    try {
+      if (condition(world)) return;
+      lastError = undefined;
+    } catch (err) {
+      lastError = (err as Error).message;
+    }
+
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) break;
+    await new Promise((r) => setTimeout(r, Math.min(delay, remaining)));
+    delay = Math.min(delay * settings.backoff, settings.maxIntervalMs);
+  }
+
+  throw new Error(
+    `Polling GET ${pathTemplate} timed out after ${seconds}s and ${attempts} attempt(s): expected ${description}\n` +
+      (lastError ? `Last check error: ${lastError}\n` : '') +
+      `Last response: status ${world.lastStatus}\n${truncate(world.lastText)}`,
+  );
+}
+
+export function registerApiPollingSteps(test: any): void {
+  const { Given, When } = createBdd(test as any) as any;
+
+  Given('I poll every {int} ms', { tags: '@api' }, async ({ world }: any, intervalMs: number) => {
+    world.polling = { ...(world.polling || {}), intervalMs };
+  });
+
+  Given('I poll every {int} ms with backoff {float}', { tags: '@api' }, async ({ world }: any, intervalMs: number, backoff: number) => {
+    world.polling = { intervalMs, backoff };
+  });
+
+  When(
+    'I poll GET {string} until the value at {string} equals {string} within {int} seconds',
+    { tags: '@api' },
+    async ({ api, world }: any, path: string, valuePath: string, expectedRaw: string, seconds: number) => {
+      const expected = parseExpected(expectedRaw, world);
+      await pollUntil({ api, world }, path, seconds, `value at '${valuePath}' to equal ${JSON.stringify(expected)}`, (w) =>
+        isDeepStrictEqual(selectPath(w.lastJson, valuePath), expected),
+      );
+    },
+  );
+
+  When(
+    'I poll GET {string} until the response status is {int} within {int} seconds',
+    { tags: '@api' },
+    async ({ api, world }: any, path: string, status: number, seconds: number) => {
+      await pollUntil({ api, world }, path, seconds, `status ${status}`, (w) => w.lastStatus === status);
+    },
+  );
+}
@@ -0,0 +1,59 @@
+import { createBdd } from 'playwright-bdd';
+import type { TestInfo } from '@playwright/test';
+import { resolve } from 'path';
+import { apiSnapshotPath, formatJsonDiff, matchJsonSnapshot, redactJson, snapshotRedactKeys } from '../snapshot';
+import type { World } from '../world';
+
+/**
+ * Mirrors Playwright: `--update-snapshots` (all/changed) or `UPDATE_API_SNAPSHOTS=1` rewrites stored
+ * snapshots, `updateSnapshots: 'missing'` (the default) writes new ones. Nothing is written on CI.
+ */
+function writeMode(testInfo: TestInfo): { update: boolean; writeMissing: boolean } {
+  if (process.env.CI) return { update: false, writeMissing: false };
+  const mode = testInfo.config.updateSnapshots;
+  const update = mode === 'all' || mode === 'changed' || ['1', 'true'].includes(process.env.UPDATE_API_SNAPSHOTS || '');
+  return { update, writeMissing: update || mode === 'missing' };
+}
+
+export function registerApiSnapshotSteps(test: any): void {
+  const { Then } = createBdd(test as any) as any;
+
+  async function assertSnapshot(
+    args: { world: World; $testInfo: TestInfo; $uri: string; $bddConfig: { configDir: string } },
+    name: string,
+    extraRedact: string[] = [],
+  ): Promise<void> {
+    const { world, $testInfo, $uri, $bddConfig } = args;
+    if (world.lastJson === undefined) {
+      throw new Error(`Cannot snapshot '${name}': the last response is not JSON. Body: ${world.lastText}`);
+    }
+
+    const redacted = redactJson(world.lastJson, snapshotRedactKeys(extraRedact));
+    const snapshotPath = apiSnapshotPath(resolve($bddConfig.configDir, $uri), name);
+    const result = matchJsonSnapshot(redacted, snapshotPath, writeMode($testInfo));
+
+    if (result.written) {
+      $testInfo.annotations.push({ type: 'api-snapshot', description: `wrote ${snapshotPath}` });
+      return;
+    }
+    if (result.missing) {
+      throw new Error(`Snapshot '${name}' does not exist: ${snapshotPath}\nRun with --update-snapshots outside CI to write it`);
+    }
+    if (!result.pass) {
+      throw new Error(`Response does not match snapshot '${name}' (${result.diff.length} difference(s)):\n${formatJsonDiff(result.diff)}\nSnapshot: ${snapshotPath}`);
+    }
+  }
+
+  Then('the response should match snapshot {string}', { tags: '@api' }, async ({ world, $testInfo, $uri, $bddConfig }: any, name: string) => {
+    await assertSnapshot({ world, $testInfo, $uri, $bddConfig }, name);
+  });
+
+  Then(
+    'the response should match snapshot {string} redacting {string}',
+    { tags: '@api' },
+    async ({ world, $testInfo, $uri, $bddConfig }: any, name: string, keys: string) => {
+      const extra = keys.split(',').map((k) => k.trim()).filter(Boolean);
+      await assertSnapshot({ world, $testInfo, $uri, $bddConfig }, name, extra);
+    },
+  );
+}
@@ -0,0 +1,102 @@
+import { createBdd } from 'playwright-bdd';
+import { expect } from '@playwright/test';
+import { isDeepStrictEqual } from 'util';
+import type { SseEvent, SseEventPredicate, SseSubscription } from '../ports/sse.port';
+import type { World } from '../world';
+import { interpolate, parseExpected, requestHeaders, selectPath } from '../utils';
+
+function valueAt(event: SseEvent, path: string): unknown {
+  if (event.json === undefined) return undefined;
+  try {
+    return selectPath(event.json, path);
+  } catch {
+    return undefined;
+  }
+}
+
+function currentStream(world: World): SseSubscription {
+  if (!world.sseStream) throw new Error('No event stream is open; use `I open the event stream {string}` first');
+  return world.sseStream;
+}
+
+function describeEvents(events: SseEvent[]): string {
+  if (!events.length) return '  (none)';
+  return events
+    .slice(-10)
+    .map((e) => `  ${e.event}${e.id ? ` #${e.id}` : ''}: ${e.data.length > 200 ? `${e.data.slice(0, 197)}...` : e.data}`)
+    .join('\n');
+}
+
+export function registerApiSseSteps(test: any): void {
+  const { When, Then } = createBdd(test as any) as any;
+
+  async function expectEvent(world: World, predicate: SseEventPredicate, seconds: number, label: string): Promise<void> {
+    const stream = currentStream(world);
+    try {
+      world.lastSseEvent = await stream.waitForEvent(predicate, seconds * 1000);
+    } catch (err) {
+      throw new Error(`${(err as Error).message}: expected ${label}\nLast events:\n${describeEvents(stream.events())}`);
+    }
+  }
+
+  When('I open the event stream {string}', { tags: '@api' }, async ({ sse, world }: any, path: string) => {
+    await world.sseStream?.close();
+    const stream: SseSubscription = await sse.subscribe(interpolate(path, world.vars), await requestHeaders(world));
+    world.sseStream = stream;
+    world.collectedSseEvents = undefined;
+    world.teardown = [...(world.teardown || []), () => stream.close()];
+  });
+
+  When('I close the event stream', { tags: '@api' }, async ({ world }: any) => {
+    await currentStream(world).close();
+  });
+
+  Then('I should receive an event of type {string} within {int} seconds', { tags: '@api' }, async ({ world }: any, type: string, seconds: number) => {
+    const expected = interpolate(type, world.vars);
+    await expectEvent(world, (e) => e.event === expected, seconds, `event type '${expected}'`);
+  });
+
+  Then('I should receive an event with id {string} within {int} seconds', { tags: '@api' }, async ({ world }: any, id: string, seconds: number) => {
+    const expected = interpolate(id, world.vars);
+    await expectEvent(world, (e) => e.id === expected, seconds, `event id '${expected}'`);
+  });
+
+  Then(
+    'I should receive an event with {string} equal {string} within {int} seconds',
+    { tags: '@api' },
+    async ({ world }: any, path: string, expectedRaw: string, seconds: number) => {
+      const expected = parseExpected(expectedRaw, world);
+      await expectEvent(world, (e) => isDeepStrictEqual(valueAt(e, path), expected), seconds, `'${path}' equal to ${expectedRaw}`);
+    },
+  );
+
+  When('I collect {int} events within {int} seconds', { tags: '@api' }, async ({ world }: any, count: number, seconds: number) => {
+    const stream = currentStream(world);
+    try {
+      world.collectedSseEvents = await stream.take(count, seconds * 1000);
+    } catch (err) {
+      throw new Error(`${(err as Error).message}\nLast events:\n${describeEvents(stream.events())}`);
+    }
+  });
+
+  /** Rows are the expected types, one per row, in arrival order. */
+  Then('the collected events should have types in order:', { tags: '@api' }, async ({ world }: any, dataTable: any) => {
+    const expected = (dataTable.raw() as string[][]).map(([type]) => interpolate(type, world.vars));
+    const actual = (world.collectedSseEvents || []).map((e: SseEvent) => e.event);
+    expect(actual, 'Collected event types').toEqual(expected);
+  });
+
+  /** Rows are the expected values at the JSON path, one per row, in arrival order. */
+  Then('the collected events should have {string} values in order:', { tags: '@api' }, async ({ world }: any, path: string, dataTable: any) => {
+    const expected = (dataTable.raw() as string[][]).map(([value]) => parseExpected(value ?? '', world));
+    const actual = (world.collectedSseEvents || []).map((e: SseEvent) => valueAt(e, path));
+    expect(actual, `Collected event values at '${path}'`).toEqual(expected);
+  });
+
+  Then('I store the event value at {string} as {string}', { tags: '@api' }, async ({ world }: any, path: string, varName: string) => {
+    const event: SseEvent | undefined = world.lastSseEvent;
+    if (!event) throw new Error('No event matched yet; wait for one first');
+    if (event.json === undefined) throw new Error(`Last event data is not JSON: ${event.data}`);
+    world.vars[varName] = String(selectPath(event.json, path));
+  });
+}
@@ -0,0 +1,104 @@
+import { createBdd } from 'playwright-bdd';
+import { isDeepStrictEqual } from 'util';
+import type { WsMessage, WsMessagePredicate, WsPort } from '../ports/ws.port';
+import type { World } from '../world';
+import { interpolate, parseExpected, requestHeaders, selectPath, tryParseJson } from '../utils';
+
+function valueAt(message: WsMessage, path: string): unknown {
+  if (message.json === undefined) return undefined;
+  try {
+    return selectPath(message.json, path);
+  } catch {
+    return undefined;
+  }
+}
+
+function fieldEquals(path: string, expectedRaw: string, world: World): WsMessagePredicate {
+  const expected = parseExpected(expectedRaw, world);
+  return (m) => isDeepStrictEqual(valueAt(m, path), expected);
+}
+
+function textMatches(pattern: string, world: World): WsMessagePredicate {
+  const re = new RegExp(interpolate(pattern, world.vars));
+  return (m) => re.test(m.data);
+}
+
+function describeReceived(ws: WsPort): string {
+  const messages = ws.messages();
+  if (!messages.length) return '  (none)';
+  return messages
+    .slice(-10)
+    .map((m) => `  ${m.data.length > 200 ? `${m.data.slice(0, 197)}...` : m.data}`)
+    .join('\n');
+}
+
+export function registerApiWsSteps(test: any): void {
+  const { When, Then } = createBdd(test as any) as any;
+
+  async function expectMessage(args: { ws: WsPort; world: World }, predicate: WsMessagePredicate, seconds: number, label: string): Promise<void> {
+    const { ws, world } = args;
+    try {
+      world.lastWsMessage = await ws.waitForMessage(predicate, seconds * 1000);
+    } catch (err) {
+      throw new Error(`${(err as Error).message}: expected ${label}\nLast messages:\n${describeReceived(ws)}`);
+    }
+  }
+
+  When('I connect to the WebSocket {string}', { tags: '@api' }, async ({ ws, world }: any, url: string) => {
+    await ws.connect(interpolate(url, world.vars), await requestHeaders(world));
+  });
+
+  When('I send the WebSocket message:', { tags: '@api' }, async ({ ws, world }: any, docString: string) => {
+    const text = interpolate(docString ?? '', world.vars);
+    const json = tryParseJson(text);
+    if (json === undefined) throw new Error('WebSocket message doc string is not valid JSON; use `I send the WebSocket text {string}`');
+    await ws.send(json as object);
+  });
+
+  When('I send the WebSocket text {string}', { tags: '@api' }, async ({ ws, world }: any, text: string) => {
+    await ws.send(interpolate(text, world.vars));
+  });
+
+  When('I close the WebSocket', { tags: '@api' }, async ({ ws }: any) => {
+    await ws.close();
+  });
+
+  Then(
+    'I should receive a WebSocket message with {string} equal {string} within {int} seconds',
+    { tags: '@api' },
+    async ({ ws, world }: any, path: string, expected: string, seconds: number) => {
+      await expectMessage({ ws, world }, fieldEquals(path, expected, world), seconds, `'${path}' equal to ${expected}`);
+    },
+  );
+
+  Then(
+    'I should receive a WebSocket message matching {string} within {int} seconds',
+    { tags: '@api' },
+    async ({ ws, world }: any, pattern: string, seconds: number) => {
+      await expectMessage({ ws, world }, textMatches(pattern, world), seconds, `text matching /${pattern}/`);
+    },
+  );
+
+  Then(
+    'I should not receive a WebSocket message with {string} equal {string} within {int} seconds',
+    { tags: '@api' },
+    async ({ ws, world }: any, path: string, expected: string, seconds: number) => {
+      await ws.expectNoMessage(fieldEquals(path, expected, world), seconds * 1000);
+    },
+  );
+
+  Then(
+    'I should not receive a WebSocket message matching {string} within {int} seconds',
+    { tags: '@api' },
+    async ({ ws, world }: any, pattern: string, seconds: number) => {
+      await ws.expectNoMessage(textMatches(pattern, world), seconds * 1000);
+    },
+  );
+
+  Then('I store the WebSocket message value at {string} as {string}', { tags: '@api' }, async ({ world }: any, path: string, varName: string) => {
+    const message: WsMessage | undefined = world.lastWsMessage;
+    if (!message) throw new Error('No WebSocket message matched yet; wait for one first');
+    if (message.json === undefined) throw new Error(`Last WebSocket message is not JSON: ${message.data}`);
+    world.vars[varName] = String(selectPath(message.json, path));
+  });
+}
@@ -1,9 +1,18 @@
 import { registerApiHttpSteps } from './api.http';
 import { registerApiAssertionSteps } from './api.assertion';
 import { registerApiAuthSteps } from './api.auth';
+import { registerApiHeaderSteps } from './api.headers';
+import { registerApiGraphqlSteps } from './api.graphql';
+import { registerApiPollingSteps } from './api.polling';
+import { registerApiSnapshotSteps } from './api.snapshot';
+import { registerApiWsSteps } from './api.ws';
+import { registerApiSseSteps } from './api.sse';
+import { registerApiBinarySteps } from './api.binary';
+import { registerApiPaginationSteps } from './api.pagination';
 import { registerHybridSteps } from './hybrid';
 import { registerSharedCleanupSteps } from './shared.cleanup';
 import { registerSharedVarSteps } from './shared.vars';
+import { registerSharedStubSteps } from './shared.stubs';
 import { registerUiBasicSteps } from './ui.basic';
 import { registerWizardSteps } from './ui.wizard';
 import { registerTuiBasicSteps } from './tui.basic';
@@ -13,6 +22,14 @@ export function registerApiSteps(test: any): void {
   registerApiAuthSteps(test);
   registerApiHttpSteps(test);
   registerApiAssertionSteps(test);
+  registerApiHeaderSteps(test);
+  registerApiBinarySteps(test);
+  registerApiPaginationSteps(test);
+  registerApiGraphqlSteps(test);
+  registerApiPollingSteps(test);
+  registerApiSnapshotSteps(test);
+  registerApiWsSteps(test);
+  registerApiSseSteps(test);
 }
 
 export function registerUiSteps(test: any): void {
@@ -23,6 +40,7 @@ export function registerUiSteps(test: any): void {
 export function registerSharedSteps(test: any): void {
   registerSharedVarSteps(test);
   registerSharedCleanupSteps(test);
+  registerSharedStubSteps(test);
 }
 
 export function registerHybridSuite(test: any): void {
@@ -55,9 +73,18 @@ export {
   registerApiHttpSteps,
   registerApiAssertionSteps,
   registerApiAuthSteps,
+  registerApiHeaderSteps,
+  registerApiGraphqlSteps,
+  registerApiPollingSteps,
+  registerApiSnapshotSteps,
+  registerApiWsSteps,
+  registerApiSseSteps,
+  registerApiBinarySteps,
+  registerApiPaginationSteps,
   registerHybridSteps,
   registerSharedCleanupSteps,
   registerSharedVarSteps,
+  registerSharedStubSteps,
   registerUiBasicSteps,
   registerWizardSteps,
   registerTuiBasicSteps,
@@ -0,0 +1,84 @@
+import { createBdd } from 'playwright-bdd';
+import { expect } from '@playwright/test';
+import type { StubRequest, StubServerPort } from '../ports/stub.port';
+import type { World } from '../world';
+import { interpolate } from '../utils';
+import { formatJsonMismatches, matchJson, parseJsonTemplate } from '../json-match';
+
+/** `world.vars` key holding a stub's base URL, e.g. `{stub_payments_url}` */
+export function stubUrlVar(name: string): string {
+  return `stub_${name.replace(/[^a-zA-Z0-9_-]+/g, '_')}_url`;
+}
+
+function exposeStub(stubs: StubServerPort, world: World, name: string): void {
+  world.vars[stubUrlVar(name)] = stubs.url(name);
+}
+
+function describeRequests(stubs: StubServerPort, name: string): string {
+  const all = stubs.requests(name);
+  return all.length ? all.map((r) => `  ${r.method} ${r.path}${r.query ? `?${r.query}` : ''}`).join('\n') : '  (none)';
+}
+
+export function registerSharedStubSteps(test: any): void {
+  const { Given, Then } = createBdd(test as any) as any;
+
+  Given('the stub {string} is running', async ({ stubs, world }: any, name: string) => {
+    exposeStub(stubs, world, name);
+  });
+
+  Given(
+    'the stub {string} responds to {word} {string} with status {int}',
+    async ({ stubs, world }: any, name: string, method: string, path: string, status: number) => {
+      stubs.respond(name, method, interpolate(path, world.vars), { status });
+      exposeStub(stubs, world, name);
+    },
+  );
+
+  Given(
+    'the stub {string} responds to {word} {string} with status {int} and body:',
+    async ({ stubs, world }: any, name: string, method: string, path: string, status: number, docString: string) => {
+      stubs.respond(name, method, interpolate(path, world.vars), { status, body: interpolate(docString ?? '', world.vars) });
+      exposeStub(stubs, world, name);
+    },
+  );
+
+  /** Waits briefly, since the service under test may call the stub after answering. */
+  Then(
+    'the stub {string} should have received {int} {word} {string}',
+    async ({ stubs, world }: any, name: string, count: number, method: string, pathTemplate: string) => {
+      const path = interpolate(pathTemplate, world.vars);
+      let received = '';
+      try {
+        await expect
+          .poll(
+            () => {
+              // Described on every attempt, so a failure lists what arrived by the end of the wait
+              received = describeRequests(stubs, name);
+              return stubs.requests(name, method, path).length;
+            },
+            { timeout: Number(process.env.STUB_RECEIVE_TIMEOUT_MS || 5000) },
+          )
+          .toBe(count);
+      } catch (err) {
+        throw new Error(`Stub '${name}' call count for ${method} ${path}. Received:\n${received}\n${err instanceof Error ? err.message : String(err)}`);
+      }
+    },
+  );
+
+  Then(
+    'the stub {string} should have received {word} {string} with JSON body:',
+    async ({ stubs, world }: any, name: string, method: string, pathTemplate: string, docString: string) => {
+      const path = interpolate(pathTemplate, world.vars);
+      const template = parseJsonTemplate(docString, world.vars);
+      const requests: StubRequest[] = stubs.requests(name, method, path);
+      if (requests.some((r) => !matchJson(r.json, template).mismatches.length)) return;
+
+      const closest = requests.map((r) => matchJson(r.json, template).mismatches).sort((a, b) => a.length - b.length)[0];
+      throw new Error(
+        closest
+          ? `No ${method} ${path} request to stub '${name}' matches the body. Closest (${closest.length} mismatch(es)):\n${formatJsonMismatches(closest)}`
+          : `Stub '${name}' received no ${method} ${path}. Received:\n${describeRequests(stubs, name)}`,
+      );
+    },
+  );
+}
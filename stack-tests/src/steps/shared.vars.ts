@@ -14,6 +14,8 @@ export function registerSharedVarSteps(test: any): void {
 
   Given('I set header {string} to {string}', async ({ world }: any, header: string, value: string) => {
     world.headers = { ...(world.headers || {}), [header]: value };
+    // An explicit Authorization header must not be replaced by a later token renewal
+    if (header.toLowerCase() === 'authorization') world.authRefresh = undefined;
   });
 
   Given('I disable cleanup', async ({ world }: any) => {
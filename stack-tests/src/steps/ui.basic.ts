@@ -1,5 +1,5 @@
 import { createBdd } from 'playwright-bdd';
-import { interpolate } from '../utils';
+import { interpolate, loginAs } from '../utils';
 
 export function registerUiBasicSteps(test: any): void {
   const { Given, When, Then } = createBdd(test as any) as any;
@@ -32,6 +32,11 @@ export function registerUiBasicSteps(test: any): void {
     await auth.uiLoginAsUser(world);
   });
 
+  /** Any credential profile, e.g. `I log in as "auditor" in UI` */
+  When('I log in as {string} in UI', { tags: '@ui' }, async ({ auth, world }: any, profile: string) => {
+    await loginAs(auth, 'ui', world, interpolate(profile, world.vars));
+  });
+
   Then('I should see text {string}', { tags: '@ui' }, async ({ ui, world }: any, text: string) => {
     await ui.expectText(interpolate(text, world.vars));
   });
@@ -1,4 +1,6 @@
 import { expect } from '@playwright/test';
+import type { ApiResult } from './ports/api.port';
+import type { AuthPort } from './ports/auth.port';
 import type { World } from './world';
 
 export function interpolate(template: string, vars: Record<string, string>): string {
@@ -8,6 +10,30 @@ export function interpolate(template: string, vars: Record<string, string>): str
   });
 }
 
+/** A numeric env setting, or the default when it is unset, not a number or below `min`. */
+export function envNumber(name: string, fallback: number, min: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value >= min ? value : fallback;
+}
+
+/**
+ * Log in with a named credential profile through the API or UI. Adapters without `apiLoginAs` /
+ * `uiLoginAs` still serve the `admin` and `user` profiles through their dedicated methods.
+ */
+export async function loginAs(auth: AuthPort, via: 'api' | 'ui', world: World, profile: string): Promise<void> {
+  const byProfile = via === 'api' ? auth.apiLoginAs : auth.uiLoginAs;
+  if (byProfile) return byProfile.call(auth, world, profile);
+  if (profile === 'admin') return via === 'api' ? auth.apiLoginAsAdmin(world) : auth.uiLoginAsAdmin(world);
+  if (profile === 'user') return via === 'api' ? auth.apiLoginAsUser(world) : auth.uiLoginAsUser(world);
+  throw new Error(`The auth adapter does not implement ${via}LoginAs, so only the 'admin' and 'user' profiles are available (got '${profile}')`);
+}
+
+/** Headers for an outgoing request, after `world.authRefresh` has had a chance to renew the token. */
+export async function requestHeaders(world: World): Promise<Record<string, string>> {
+  await world.authRefresh?.(world);
+  return world.headers;
+}
+
 export function tryParseJson(text: string): unknown {
   try {
     return JSON.parse(text);
@@ -16,53 +42,289 @@ export function tryParseJson(text: string): unknown {
   }
 }
 
-function tokenize(path: string): Array<string | number> {
-  const out: Array<string | number> = [];
-  let i = 0;
+type PathToken =
+  | { kind: 'key'; key: string }
+  | { kind: 'index'; index: number }
+  | { kind: 'wildcard' }
+  | { kind: 'filter'; expr: string }
+  | { kind: 'descend'; key?: string }
+  | { kind: 'length' };
+
+/** Index of the `)]` closing a filter that starts at `from`, skipping quoted strings. */
+function filterEnd(path: string, from: number): number {
+  let quote: string | undefined;
+  for (let i = from; i < path.length; i++) {
+    const c = path[i];
+    if (quote) {
+      if (c === quote) quote = undefined;
+    } else if (c === "'" || c === '"') {
+      quote = c;
+    } else if (c === ')' && path[i + 1] === ']') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function readKey(path: string, i: number): number {
+  let j = i;
+  while (j < path.length && /[a-zA-Z0-9_$-]/.test(path[j])) j++;
+  return j;
+}
+
+function tokenize(path: string): PathToken[] {
+  const out: PathToken[] = [];
+  let i = path.startsWith('$') && !/[a-zA-Z0-9_]/.test(path[1] ?? '') ? 1 : 0;
   while (i < path.length) {
+    if (path.startsWith('..', i)) {
+      i += 2;
+      if (path[i] === '*') {
+        out.push({ kind: 'descend' });
+        i++;
+        continue;
+      }
+      const j = readKey(path, i);
+      if (j === i) throw new Error(`Invalid recursive descent in path '${path}'`);
+      out.push({ kind: 'descend', key: path.slice(i, j) });
+      i = j;
+      continue;
+    }
     if (path[i] === '.') {
       i++;
       continue;
     }
+    if (path[i] === '*') {
+      out.push({ kind: 'wildcard' });
+      i++;
+      continue;
+    }
+    if (path.startsWith('[?(', i)) {
+      const j = filterEnd(path, i + 3);
+      if (j < 0) throw new Error(`Unterminated filter in path '${path}'`);
+      out.push({ kind: 'filter', expr: path.slice(i + 3, j) });
+      i = j + 2;
+      continue;
+    }
     if (path[i] === '[') {
       const j = path.indexOf(']', i + 1);
       if (j < 0) throw new Error(`Invalid path: ${path}`);
-      const idxStr = path.slice(i + 1, j);
-      const idx = Number(idxStr);
-      if (!Number.isInteger(idx)) throw new Error(`Invalid array index '${idxStr}' in path '${path}'`);
-      out.push(idx);
+      const inner = path.slice(i + 1, j).trim();
       i = j + 1;
+      if (inner === '*') {
+        out.push({ kind: 'wildcard' });
+        continue;
+      }
+      const quoted = /^(['"])(.*)\1$/.exec(inner);
+      if (quoted) {
+        out.push({ kind: 'key', key: quoted[2] });
+        continue;
+      }
+      const idx = Number(inner);
+      if (!Number.isInteger(idx)) throw new Error(`Invalid array index '${inner}' in path '${path}'`);
+      out.push({ kind: 'index', index: idx });
       continue;
     }
 
-    let j = i;
-    while (j < path.length && /[a-zA-Z0-9_-]/.test(path[j])) j++;
+    const j = readKey(path, i);
+    if (j === i) throw new Error(`Invalid character '${path[i]}' in path '${path}'`);
     const key = path.slice(i, j);
-    out.push(key);
+    if (key === 'length' && path.startsWith('()', j)) {
+      out.push({ kind: 'length' });
+      i = j + 2;
+      continue;
+    }
+    out.push({ kind: 'key', key });
     i = j;
   }
   return out;
 }
 
+function typeName(v: unknown): string {
+  return v === null ? 'null' : Array.isArray(v) ? 'array' : typeof v;
+}
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return v !== null && typeof v === 'object' && !Array.isArray(v);
+}
+
+function childrenOf(v: unknown): unknown[] {
+  if (Array.isArray(v)) return v;
+  if (isPlainObject(v)) return Object.values(v);
+  return [];
+}
+
+function descendants(v: unknown, key: string | undefined, out: unknown[]): unknown[] {
+  if (key !== undefined && isPlainObject(v) && key in v) out.push(v[key]);
+  for (const child of childrenOf(v)) {
+    if (key === undefined) out.push(child);
+    descendants(child, key, out);
+  }
+  return out;
+}
+
+function parseFilterLiteral(raw: string): unknown {
+  const s = raw.trim();
+  const quoted = /^(['"])(.*)\1$/.exec(s);
+  if (quoted) return quoted[2];
+  const regex = /^\/(.*)\/([a-z]*)$/.exec(s);
+  if (regex) return new RegExp(regex[1], regex[2]);
+  if (s === 'null') return null;
+  if (s === 'true') return true;
+  if (s === 'false') return false;
+  if (s !== '' && !Number.isNaN(Number(s))) return Number(s);
+  throw new Error(`Invalid filter literal '${raw}'`);
+}
+
+function filterOperand(node: unknown, ref: string): unknown {
+  if (ref === '@') return node;
+  try {
+    return selectPath(node, ref.replace(/^@\.?/, ''));
+  } catch {
+    return undefined;
+  }
+}
+
+/** Splits a filter on `op`, leaving quoted strings and `=~ /regex/` literals intact. */
+function splitFilter(expr: string, op: '||' | '&&'): string[] {
+  const parts: string[] = [];
+  let start = 0;
+  let quote: string | undefined;
+  for (let i = 0; i < expr.length; i++) {
+    const c = expr[i];
+    if (quote) {
+      if (c === '\\' && quote === '/') i++;
+      else if (c === quote) quote = undefined;
+    } else if (c === "'" || c === '"' || (c === '/' && /=~\s*$/.test(expr.slice(start, i)))) {
+      quote = c;
+    } else if (expr.startsWith(op, i)) {
+      parts.push(expr.slice(start, i));
+      start = i + op.length;
+      i += op.length - 1;
+    }
+  }
+  parts.push(expr.slice(start));
+  return parts;
+}
+
+/** Supports `@.a.b`, `@.a <op> literal` (==, !=, <, <=, >, >=, =~ /re/) joined by && / ||. */
+function matchesFilter(node: unknown, expr: string): boolean {
+  return splitFilter(expr, '||').some((alt) =>
+    splitFilter(alt, '&&').every((clause) => {
+      const m = /^\s*(@[^\s=!<>~]*)\s*(==|!=|<=|>=|=~|<|>)\s*(.+?)\s*$/.exec(clause);
+      if (!m) {
+        const ref = clause.trim();
+        if (!ref.startsWith('@')) throw new Error(`Invalid filter expression '${expr}'`);
+        const v = filterOperand(node, ref);
+        return v !== undefined && v !== null && v !== false;
+      }
+      const left: any = filterOperand(node, m[1]);
+      const right: any = parseFilterLiteral(m[3]);
+      switch (m[2]) {
+        case '==':
+          return left === right;
+        case '!=':
+          return left !== right;
+        case '<':
+          return left < right;
+        case '<=':
+          return left <= right;
+        case '>':
+          return left > right;
+        case '>=':
+          return left >= right;
+        case '=~':
+          return right instanceof RegExp && typeof left === 'string' && right.test(left);
+        default:
+          return false;
+      }
+    }),
+  );
+}
+
+/**
+ * Resolve a path such as `data.items[0].id` against a JSON value.
+ *
+ * Definite paths return the single value. Wildcards (`items[*].id`, `.*`), filters
+ * (`items[?(@.status=='active')].name`) and recursive descent (`..id`) return an array of
+ * every match. Negative indexes count from the end, and `length()` returns the length of
+ * the value (or the number of matches) it follows.
+ */
 export function selectPath(root: unknown, path: string): unknown {
   if (!path) return root;
-  let cur: any = root;
+  let nodes: any[] = [root];
+  let multi = false;
+
   for (const token of tokenize(path)) {
-    if (typeof token === 'number') {
-      if (!Array.isArray(cur)) {
-        const gotType = cur === null ? 'null' : Array.isArray(cur) ? 'array' : typeof cur;
-        throw new Error(`Path '${path}': expected array but got ${gotType}`);
+    switch (token.kind) {
+      case 'key':
+        if (multi) {
+          nodes = nodes.filter((n) => isPlainObject(n) && token.key in n).map((n) => n[token.key]);
+        } else {
+          const cur = nodes[0];
+          if (!isPlainObject(cur)) throw new Error(`Path '${path}': expected object but got ${typeName(cur)}`);
+          nodes = [cur[token.key]];
+        }
+        break;
+      case 'index': {
+        const at = (arr: unknown[]) => arr[token.index < 0 ? arr.length + token.index : token.index];
+        if (multi) {
+          nodes = nodes.filter((n) => Array.isArray(n) && at(n) !== undefined).map(at);
+        } else {
+          const cur = nodes[0];
+          if (!Array.isArray(cur)) throw new Error(`Path '${path}': expected array but got ${typeName(cur)}`);
+          nodes = [at(cur)];
+        }
+        break;
       }
-      cur = cur[token];
-    } else {
-      if (cur == null || typeof cur !== 'object' || Array.isArray(cur)) {
-        const gotType = cur === null ? 'null' : Array.isArray(cur) ? 'array' : typeof cur;
-        throw new Error(`Path '${path}': expected object but got ${gotType}`);
+      case 'wildcard':
+        nodes = nodes.flatMap(childrenOf);
+        multi = true;
+        break;
+      case 'filter':
+        nodes = nodes.flatMap((n) => childrenOf(n).filter((c) => matchesFilter(c, token.expr)));
+        multi = true;
+        break;
+      case 'descend':
+        nodes = nodes.flatMap((n) => descendants(n, token.key, []));
+        multi = true;
+        break;
+      case 'length': {
+        if (multi) {
+          nodes = [nodes.length];
+        } else {
+          const cur = nodes[0];
+          if (typeof cur === 'string' || Array.isArray(cur)) nodes = [cur.length];
+          else if (isPlainObject(cur)) nodes = [Object.keys(cur).length];
+          else throw new Error(`Path '${path}': length() of ${typeName(cur)}`);
+        }
+        multi = false;
+        break;
       }
-      cur = cur[token];
     }
   }
-  return cur;
+  return multi ? nodes : nodes[0];
+}
+
+export function setPath(root: Record<string, unknown>, path: string, value: unknown): void {
+  const tokens = tokenize(path).map((t) => {
+    if (t.kind === 'key') return t.key;
+    if (t.kind === 'index' && t.index >= 0) return t.index;
+    throw new Error(`Path '${path}': only keys and non-negative indexes can be set`);
+  });
+  if (!tokens.length) throw new Error('Cannot set an empty path');
+  let cur: any = root;
+  tokens.forEach((token, i) => {
+    if (i === tokens.length - 1) {
+      cur[token] = value;
+      return;
+    }
+    if (cur[token] == null) {
+      cur[token] = typeof tokens[i + 1] === 'number' ? [] : {};
+    } else if (typeof cur[token] !== 'object') {
+      throw new Error(`Path '${path}': cannot set below ${typeof cur[token]} at '${token}'`);
+    }
+    cur = cur[token];
+  });
 }
 
 export function parseExpected(input: string, world: World): unknown {
@@ -74,6 +336,60 @@ export function parseExpected(input: string, world: World): unknown {
   return s;
 }
 
+export type SetCookie = {
+  name: string;
+  value: string;
+  attributes: Record<string, string | true>;
+  httpOnly: boolean;
+  secure: boolean;
+  sameSite?: string;
+  /** Expiry in epoch milliseconds (Max-Age wins over Expires); undefined for session cookies */
+  expiresAt?: number;
+};
+
+export function parseSetCookie(header: string, now = Date.now()): SetCookie {
+  const [pair, ...attrs] = header.split(';');
+  const eq = pair.indexOf('=');
+  const name = (eq < 0 ? pair : pair.slice(0, eq)).trim();
+  const value = eq < 0 ? '' : pair.slice(eq + 1).trim();
+
+  const attributes: Record<string, string | true> = {};
+  for (const attr of attrs) {
+    const i = attr.indexOf('=');
+    const key = (i < 0 ? attr : attr.slice(0, i)).trim().toLowerCase();
+    if (key) attributes[key] = i < 0 ? true : attr.slice(i + 1).trim();
+  }
+
+  let expiresAt: number | undefined;
+  const maxAge = attributes['max-age'];
+  if (typeof maxAge === 'string' && /^-?\d+$/.test(maxAge)) {
+    expiresAt = now + Number(maxAge) * 1000;
+  } else if (typeof attributes.expires === 'string') {
+    const date = Date.parse(attributes.expires);
+    if (!Number.isNaN(date)) expiresAt = date;
+  }
+
+  return {
+    name,
+    value,
+    attributes,
+    httpOnly: attributes.httponly === true,
+    secure: attributes.secure === true,
+    sameSite: typeof attributes.samesite === 'string' ? attributes.samesite : undefined,
+    expiresAt,
+  };
+}
+
+export function responseCookies(world: World): SetCookie[] {
+  const raw = world.lastResponse
+    ? world.lastResponse
+        .headersArray()
+        .filter((h) => h.name.toLowerCase() === 'set-cookie')
+        .map((h) => h.value)
+    : (world.lastHeaders?.['set-cookie'] ?? '').split('\n').filter(Boolean);
+  return raw.map((h) => parseSetCookie(h));
+}
+
 export function assertMasked(val: unknown): void {
   expect(val).toBe('****');
 }
@@ -83,3 +399,27 @@ export function registerCleanup(world: World, item: { method?: 'DELETE' | 'POST'
   if (world.cleanup.some((c) => c.method === method && c.path === item.path)) return;
   world.cleanup.push({ method, path: item.path });
 }
+
+export function applyApiResult(world: World, result: ApiResult): void {
+  if (result.status === 401) world.authRejected?.(world);
+  world.lastStatus = result.status;
+  world.lastText = result.text;
+  world.lastBody = result.body;
+  world.lastJson = result.json;
+  world.lastHeaders = result.headers;
+  world.lastContentType = result.contentType;
+  world.lastResponse = result.response;
+  world.lastDurationMs = result.durationMs;
+}
+
+/** Forget the last response, e.g. after a login served from cache made no request. */
+export function clearApiResult(world: World): void {
+  world.lastStatus = undefined;
+  world.lastText = undefined;
+  world.lastBody = undefined;
+  world.lastJson = undefined;
+  world.lastHeaders = undefined;
+  world.lastContentType = undefined;
+  world.lastResponse = undefined;
+  world.lastDurationMs = undefined;
+}
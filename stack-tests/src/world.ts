@@ -1,4 +1,7 @@
 import type { APIResponse } from '@playwright/test';
+import type { ApiRequestOptions } from './ports/api.port';
+import type { WsMessage } from './ports/ws.port';
+import type { SseEvent, SseSubscription } from './ports/sse.port';
 
 export type CleanupItem = {
   method: 'DELETE' | 'POST' | 'PATCH' | 'PUT';
@@ -15,9 +18,43 @@ export type World = {
   lastResponse?: APIResponse;
   lastStatus?: number;
   lastText?: string;
+  lastBody?: Buffer;
   lastJson?: unknown;
   lastHeaders?: Record<string, string>;
   lastContentType?: string;
+  lastDurationMs?: number;
+
+  /** Renews credentials that are about to expire; called before each API, GraphQL, WebSocket or SSE request */
+  authRefresh?: (world: World) => Promise<void>;
+  /** Called when an API request is rejected with 401, so a cached token can be dropped */
+  authRejected?: (world: World) => void;
+
+  /** Credential profile whose saved browser session the page is using (UI session reuse) */
+  uiSessionRole?: string;
+
+  /** Transport overrides for the next API request only (timeout, redirects, failOnStatusCode) */
+  nextRequestOptions?: ApiRequestOptions;
+
+  /** Overrides for the polling steps' interval and backoff */
+  polling?: { intervalMs?: number; backoff?: number };
+
+  /** Variables sent with the next GraphQL operation */
+  graphqlVariables?: Record<string, unknown>;
+  /** When set, GraphQL `errors` do not fail the operation step */
+  expectGraphqlErrors?: boolean;
+
+  /** Message matched by the last WebSocket wait step */
+  lastWsMessage?: WsMessage;
+
+  /** Event stream opened by `I open the event stream {string}` */
+  sseStream?: SseSubscription;
+  /** Event matched by the last SSE wait step */
+  lastSseEvent?: SseEvent;
+  /** Events gathered by `I collect {int} events within {int} seconds` */
+  collectedSseEvents?: SseEvent[];
+
+  /** Run by the world fixture at scenario end, before cleanup (e.g. closing streams) */
+  teardown?: Array<() => Promise<void> | void>;
 };
 
 export function initWorld(): World {
@@ -1,7 +1,7 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-  entry: ['src/index.ts', 'src/steps/index.ts'],
+  entry: ['src/index.ts', 'src/steps/index.ts', 'src/reporters/latency.reporter.ts'],
   format: ['esm'],
   dts: true,
   sourcemap: false,